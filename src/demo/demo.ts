@@ -6,13 +6,14 @@
 import * as tf from '@tensorflow/tfjs';
 import * as use from '@tensorflow-models/universal-sentence-encoder';
 import { aiModelLoader, ModelLoadingStatus } from '../lib/aiModelLoader';
+import { ModelAdapter } from '../lib/modelAdapter';
 import { registerTfjsModel, loadTfjsModel, unloadTfjsModel, clearTfjsMemory } from '../lib/tfjsModelAdapter';
+import { preloadOnHover } from '../lib/preloadStrategies';
 
 // Constants
 const MODEL_NAME = 'universal-sentence-encoder';
 const DEFAULT_SENTENCES = ['Hello world', 'How are you today?'];
-let useFallbackModel = false;
-let fallbackModel: use.UniversalSentenceEncoder | null = null;
+const FALLBACK_VARIANT = 'use-package';
 
 // DOM Elements
 const loadModelBtn = document.getElementById('load-model') as HTMLButtonElement;
@@ -22,24 +23,55 @@ const encodeTextBtn = document.getElementById('encode-text') as HTMLButtonElemen
 const modelStatusEl = document.getElementById('model-status') as HTMLDivElement;
 const encodingResultEl = document.getElementById('encoding-result') as HTMLDivElement;
 const inputTextEl = document.getElementById('input-text') as HTMLTextAreaElement;
+const inputAreaEl = document.querySelector('.input-area') as HTMLDivElement;
 const loadTimeEl = document.getElementById('load-time') as HTMLSpanElement;
 const encodeTimeEl = document.getElementById('encode-time') as HTMLSpanElement;
 const memoryUsageEl = document.getElementById('memory-usage') as HTMLSpanElement;
 
 // Initialize the AI model loader
 async function initialize() {
-  await aiModelLoader.initialize();
+  await aiModelLoader.initialize({ autoCleanup: true, unloadWhenHidden: true, hiddenIdleMs: 30 * 1000 });
   
   // Register the Universal Sentence Encoder model
   // Instead of using TF Hub directly, use the specialized adapter that handles model loading
   // This avoids CORS issues and other browser limitations
   registerModel();
   
+  // Start downloading as soon as the user shows intent to encode text
+  // (the encode button stays disabled until then, so it never receives pointer events)
+  aiModelLoader.preloadModel(MODEL_NAME, { strategy: preloadOnHover(inputAreaEl) });
+  
+  // Re-render whenever the model changes state instead of polling
+  aiModelLoader.on('*', event => {
+    if (event.type === 'progress' && event.progress) {
+      const { loaded, total, fraction } = event.progress;
+      modelStatusEl.textContent = `Status: Loading model... ${(fraction * 100).toFixed(0)}% ` +
+        `(${formatBytes(loaded)}${total ? ` of ${formatBytes(total)}` : ''})`;
+      return;
+    }
+    
+    updateUI();
+    
+    if (event.type === 'loaded' || event.type === 'error') {
+      updateMemoryUsage();
+    }
+  });
+  
   updateUI();
 }
 
+// Loads the encoder through the official package, and frees its weights when
+// the fallback is unloaded or evicted
+const useAdapter: ModelAdapter<use.UniversalSentenceEncoder> = {
+  modelType: 'use-package',
+  load: () => use.load(),
+  dispose: encoder => (encoder as unknown as { model: tf.GraphModel }).model.dispose()
+};
+
 // Register the model using a more reliable approach
 function registerModel() {
+  aiModelLoader.registerAdapter(useAdapter);
+  
   // For demo purposes, we'll directly load the model using the @tensorflow-models/universal-sentence-encoder package
   // This handles all the complexity of finding the right model URL and loading it correctly
   registerTfjsModel({
@@ -49,31 +81,24 @@ function registerModel() {
     modelType: 'tfjs',
     modelFormat: 'graph',
     warmup: true,
-    inputShape: [1]
+    inputShape: [1],
+    // If the graph model fails, fall back to the official package which handles
+    // finding the right model URL and loading it correctly
+    variants: [{
+      id: FALLBACK_VARIANT,
+      modelType: useAdapter.modelType
+    }]
   });
   
   console.log('Model registered');
 }
 
-// Load the model using the official package as a fallback
-async function loadFallbackModel(): Promise<use.UniversalSentenceEncoder> {
-  if (fallbackModel) {
-    return fallbackModel;
-  }
-  
-  console.log('Loading fallback model using @tensorflow-models/universal-sentence-encoder package');
-  const model = await use.load();
-  fallbackModel = model;
-  return model;
-}
-
 // Update UI based on model status
 function updateUI() {
-  const status = useFallbackModel 
-    ? (fallbackModel ? ModelLoadingStatus.LOADED : ModelLoadingStatus.IDLE)
-    : aiModelLoader.getModelStatus(MODEL_NAME);
+  const status = aiModelLoader.getModelStatus(MODEL_NAME);
+  const usingFallback = aiModelLoader.getModelInfo(MODEL_NAME)?.variant === FALLBACK_VARIANT;
   
-  modelStatusEl.textContent = `Status: ${status}${useFallbackModel ? ' (using fallback)' : ''}`;
+  modelStatusEl.textContent = `Status: ${status}${usingFallback ? ' (using fallback)' : ''}`;
   modelStatusEl.className = 'status';
   
   switch (status) {
@@ -94,13 +119,11 @@ function updateUI() {
       break;
       
     case ModelLoadingStatus.ERROR:
-      if (!useFallbackModel) {
-        modelStatusEl.classList.add('error');
-        loadModelBtn.disabled = false;
-        preloadModelBtn.disabled = false;
-        unloadModelBtn.disabled = true;
-        encodeTextBtn.disabled = true;
-      }
+      modelStatusEl.classList.add('error');
+      loadModelBtn.disabled = false;
+      preloadModelBtn.disabled = false;
+      unloadModelBtn.disabled = true;
+      encodeTextBtn.disabled = true;
       break;
       
     case ModelLoadingStatus.IDLE:
@@ -120,29 +143,15 @@ async function loadModel() {
     modelStatusEl.className = 'status loading';
     updateUI();
     
-    const startTime = performance.now();
+    // The loader walks the declared variants if the graph model fails
+    await loadTfjsModel(MODEL_NAME);
     
-    // First try to load using our custom loader
-    try {
-      if (useFallbackModel) {
-        // Use the fallback approach
-        await loadFallbackModel();
-      } else {
-        // Use our custom loader
-        await loadTfjsModel(MODEL_NAME);
-      }
-    } catch (initialError) {
-      console.error('Initial loading attempt failed, trying fallback:', initialError);
-      
-      // If our custom loader fails, try the fallback approach
-      useFallbackModel = true;
-      await loadFallbackModel();
-      
-      console.log('Successfully loaded fallback model');
-    }
-    
-    const endTime = performance.now();
-    loadTimeEl.textContent = (endTime - startTime).toFixed(2);
+    // The loader times each phase of the load itself
+    const lastLoad = aiModelLoader.getDiagnostics().models[MODEL_NAME]?.lastLoad;
+    loadTimeEl.textContent = lastLoad
+      ? `${lastLoad.totalMs.toFixed(2)} (fetch ${lastLoad.fetchMs.toFixed(0)}, ` +
+        `parse ${lastLoad.parseMs.toFixed(0)}, warmup ${lastLoad.warmupMs.toFixed(0)})`
+      : '-';
     
     updateUI();
     updateMemoryUsage();
@@ -156,44 +165,17 @@ async function loadModel() {
 
 // Preload the model in the background
 function preloadModel() {
-  if (useFallbackModel) {
-    // Use the fallback approach directly
-    loadModel();
-    return;
-  }
-  
   modelStatusEl.textContent = 'Status: Preloading model in background...';
   modelStatusEl.className = 'status loading';
   
   aiModelLoader.preloadModel(MODEL_NAME);
-  
-  const checkInterval = setInterval(() => {
-    const status = aiModelLoader.getModelStatus(MODEL_NAME);
-    updateUI();
-    
-    if (status === ModelLoadingStatus.LOADED || status === ModelLoadingStatus.ERROR) {
-      clearInterval(checkInterval);
-      updateMemoryUsage();
-      
-      // If preloading failed, we'll try the fallback next time
-      if (status === ModelLoadingStatus.ERROR) {
-        useFallbackModel = true;
-      }
-    }
-  }, 500);
 }
 
 // Unload the model
 function unloadModel() {
   try {
-    if (useFallbackModel && fallbackModel) {
-      // For the fallback model, just set it to null and let garbage collection handle it
-      fallbackModel = null;
-    } else {
-      // For our custom loader
-      unloadTfjsModel(MODEL_NAME);
-      clearTfjsMemory();
-    }
+    unloadTfjsModel(MODEL_NAME);
+    clearTfjsMemory();
     
     loadTimeEl.textContent = '-';
     encodeTimeEl.textContent = '-';
@@ -222,9 +204,9 @@ async function encodeText() {
     const startTime = performance.now();
     let embeddings;
     
-    if (useFallbackModel) {
+    if (aiModelLoader.getModelInfo(MODEL_NAME)?.variant === FALLBACK_VARIANT) {
       // Use the fallback model
-      const model = await loadFallbackModel();
+      const model = await aiModelLoader.loadModel<use.UniversalSentenceEncoder>(MODEL_NAME);
       embeddings = await model.embed(sentences);
     } else {
       // Use our custom model
@@ -273,7 +255,9 @@ async function encodeText() {
 function updateMemoryUsage() {
   const memory = tf.memory();
   if (memory) {
-    memoryUsageEl.textContent = `Tensors: ${memory.numTensors}, Bytes: ${formatBytes(memory.numBytes)}`;
+    const { usedBytes } = aiModelLoader.getDiagnostics().memory;
+    memoryUsageEl.textContent = `Tensors: ${memory.numTensors}, Bytes: ${formatBytes(memory.numBytes)}, ` +
+      `Models: ${formatBytes(usedBytes)}`;
   } else {
     memoryUsageEl.textContent = 'Not available';
   }
@@ -4,6 +4,40 @@
  * with minimal impact on initial page load performance.
  */
 
+import {
+  ModelEventEmitter,
+  ModelLifecycleEvent,
+  ModelLifecycleEventType,
+  ModelLifecycleListener
+} from './modelEvents';
+import { FetchFunction, ModelLoadProgress } from './progressTracker';
+import { PersistentModelCache } from './persistentModelCache';
+import { ModelAdapter } from './modelAdapter';
+import { ModelLease } from './modelLease';
+import { ModelInputs, ModelRunOptions } from './modelInputs';
+import { BatchingOptions, InferenceBatcher, ModelArity } from './inferenceBatcher';
+import { MetricsCollector, MetricsExporter, ModelDiagnostics, ModelLoadTiming } from './modelMetrics';
+import { ModelScheduler, TimerHandle, defaultScheduler } from './scheduler';
+import { LoadPriority, LoadQueue } from './loadQueue';
+import { PreloadStrategy, isConstrainedNetwork, preloadImmediately } from './preloadStrategies';
+import { isNodeRuntime } from './runtime';
+import { ModelUrlResolver, createResolvingFetch, joinBaseUrl, mergeRequestInit } from './requestOptions';
+import type { TabCoordinator } from './tabCoordinator';
+import {
+  PageLifecycleSignal,
+  PageLifecycleSource,
+  createBrowserLifecycleSource
+} from './pageLifecycle';
+import {
+  ModelDependencyError,
+  ModelLoadCancelledError,
+  ModelLoadTimeoutError,
+  ModelLoaderError,
+  ModelNotRegisteredError,
+  isRetryableLoadError,
+  toModelLoaderError
+} from './errors';
+
 /**
  * Model loading status enumeration
  */
@@ -14,15 +48,192 @@ export enum ModelLoadingStatus {
   ERROR = 'error'
 }
 
+/**
+ * Progress callback receiving the aggregate fraction and byte-level details
+ */
+export type ModelProgressCallback = (progress: number, details: ModelLoadProgress) => void;
+
+/**
+ * Context passed to a model's load function
+ */
+export interface ModelLoadContext {
+  onProgress: (details: ModelLoadProgress) => void;
+  persistentCache: PersistentModelCache | null; // Null when disabled for this model
+  signal: AbortSignal; // Aborted on cancellation or timeout; pass it to fetch
+  markFetched: (fromCache: boolean) => void; // Call once the model files are in memory (load metrics)
+  fetchFunc: FetchFunction; // Use for model file requests: applies the configured fetchFunc and URL resolver
+  requestInit: RequestInit; // Headers, credentials, ... to send with every request
+}
+
+/**
+ * Per-call options for loadModel
+ */
+export interface ModelLoadOptions {
+  onProgress?: ModelProgressCallback;
+  signal?: AbortSignal; // Cancels this caller's wait (and the load once nobody else waits)
+  timeoutMs?: number;   // Per-attempt timeout, overriding the config's loadTimeoutMs
+  priority?: LoadPriority; // Queue priority (default: 'high' for loads, 'low' for preloads)
+}
+
+/**
+ * Options for a background preload
+ */
+export interface PreloadOptions extends ModelLoadOptions {
+  strategy?: PreloadStrategy; // When to start (default: immediately)
+  respectNetwork?: boolean;   // Skip on save-data or slow connections (default: true)
+}
+
+/**
+ * Retry policy for model loads
+ */
+export interface RetryPolicy {
+  attempts?: number;       // Total attempts including the first (default: 1)
+  initialDelayMs?: number; // Delay before the first retry (default: 500)
+  maxDelayMs?: number;     // Upper bound for the backoff delay (default: 10000)
+  backoffFactor?: number;  // Delay multiplier per attempt (default: 2)
+  retryOn?: (error: unknown, attempt: number) => boolean; // Default: isRetryableLoadError
+}
+
+/**
+ * Default retry policy: no retries
+ */
+const DEFAULT_RETRY_POLICY = {
+  attempts: 1,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2
+};
+
+/**
+ * Model types; any string may be used for third-party adapters
+ */
+export type ModelType = 'tfjs' | 'onnx' | 'custom' | (string & {});
+
 /**
  * AI Model configuration interface
  */
 export interface AIModelConfig {
   name: string;
-  modelUrl?: string;
-  modelType: 'tfjs' | 'onnx' | 'custom';
-  loadModel: () => Promise<any>;
+  modelUrl?: string; // Resolved against the loader's baseUrl
+  modelType: ModelType;
+  loadModel?: (context: ModelLoadContext) => Promise<any>; // Overrides the adapter's load
+  fetchFunc?: FetchFunction;  // Custom fetch for this model's files (default: the loader's)
+  requestInit?: RequestInit;  // Merged over the loader's requestInit, e.g. auth headers
+
   initOptions?: Record<string, any>;
+  version?: string;   // Used to key the persistent cache
+  persist?: boolean;  // Store in the persistent cache when available (default: true)
+  estimatedBytes?: number; // Expected memory footprint, used to make room before loading
+  pinned?: boolean;   // Never evict this model automatically
+  retry?: RetryPolicy;
+  loadTimeoutMs?: number; // Timeout for each load attempt
+  variants?: ModelVariant[]; // Fallbacks tried in order when the primary source fails
+  integrity?: Record<string, string>; // Expected sha256 (hex) of downloaded files, keyed by URL
+  signature?: ModelSignature; // Declared inputs and outputs
+  batching?: BatchingOptions; // Coalesce concurrent run() calls into batched inferences
+  dependencies?: string[]; // Models loaded first and kept loaded with this one, e.g. a tokenizer
+}
+
+/**
+ * Shape and dtype of a model input or output; null marks a dynamic dimension
+ */
+export interface TensorSpec {
+  name?: string;
+  shape: Array<number | null>;
+  dtype?: string;
+}
+
+/**
+ * Declared inputs and outputs of a model
+ */
+export interface ModelSignature {
+  inputs?: TensorSpec[];
+  outputs?: TensorSpec[];
+}
+
+/**
+ * An alternative source for a model, e.g. a mirror URL, a quantized variant,
+ * a different format or a completely different loader.
+ * Variants inherit the model's config except its loadModel function, so a variant
+ * loads through its own loadModel or through the adapter for its modelType.
+ * A variant with its own modelUrl does not inherit integrity hashes.
+ */
+export interface ModelVariant extends Partial<Omit<AIModelConfig, 'name' | 'variants'>> {
+  id: string;
+  [option: string]: any; // Adapter-specific overrides such as modelFormat
+}
+
+/**
+ * Snapshot of a model's state
+ */
+export interface ModelInfo {
+  name: string;
+  status: ModelLoadingStatus;
+  version?: string;
+  variant: string | null; // Id of the loaded variant ('primary' for the model's own config)
+  backend: string | null; // Backend or execution provider the loaded model runs on
+  memoryBytes: number;
+  pinned: boolean;
+  leases: number; // Outstanding leases keeping the model loaded
+  lastUsed: number;
+  dependencies: string[];
+  loadingElsewhere: boolean; // Loading in another tab sharing the coordinator
+  loadedElsewhere: boolean;  // Loaded in another tab sharing the coordinator
+}
+
+/**
+ * Eviction policy used when the cache is over budget
+ * - 'lru': evict the least recently used model first
+ * - 'size-weighted': evict the model with the largest idle time × size first
+ */
+export type EvictionPolicy = 'lru' | 'size-weighted';
+
+/**
+ * AIModelLoader constructor options
+ */
+export interface AIModelLoaderOptions {
+  maxCacheSize?: number;   // Maximum number of loaded models, on top of the memory budget (default: unlimited)
+  maxMemoryBytes?: number; // Memory budget for loaded models (default: unlimited)
+  evictionPolicy?: EvictionPolicy;
+  cacheTtl?: number; // in milliseconds
+  persistentCache?: PersistentModelCache;
+  development?: boolean;        // Enables leak warnings (default: NODE_ENV !== 'production', if set at build time)
+  leaseLeakWarningMs?: number;  // Warn about leases held longer than this (default: 60s in development)
+  scheduler?: ModelScheduler;   // Clock and timers (inject a fake one in tests)
+  maxConcurrentLoads?: number;  // Loads running at once; the rest wait by priority (default: 2)
+  baseUrl?: string;             // Relative model URLs are resolved against it
+  resolveUrl?: ModelUrlResolver; // Rewrites every model file URL before it is fetched, e.g. to sign it
+  requestInit?: RequestInit;    // Sent with every model file request, e.g. headers or credentials
+  fetchFunc?: FetchFunction;    // Default fetch for model files
+  coordinator?: TabCoordinator; // Shares downloads and statuses with loaders in other tabs
+}
+
+/**
+ * Options for AIModelLoader.createScope
+ * Scopes share their parent's memory budget, scheduler and (by default) persistent cache.
+ */
+export type AIModelScopeOptions = Omit<AIModelLoaderOptions, 'maxMemoryBytes' | 'scheduler'>;
+
+/**
+ * Options for AIModelLoader.initialize
+ */
+export interface AIModelLoaderInitOptions {
+  autoCleanup?: boolean;      // Periodically unload models past their TTL (default: false)
+  sweepIntervalMs?: number;   // How often the sweeper runs (default: 60s)
+  unloadWhenHidden?: boolean; // Unload idle models when the page is hidden or frozen (default: false)
+  hiddenIdleMs?: number;      // Idle time after which a model is unloaded while hidden (default: 0)
+  unloadOnMemoryPressure?: boolean; // Unload idle models when the JS heap is nearly full (default: false)
+  lifecycleSource?: PageLifecycleSource | null; // Default: browser events, none in Node.js
+}
+
+/**
+ * Memory usage snapshot
+ */
+export interface ModelMemoryUsage {
+  usedBytes: number;
+  sharedUsedBytes: number; // Used by every loader sharing the budget (a loader and its scopes)
+  budgetBytes: number;
+  models: Record<string, number>;
 }
 
 /**
@@ -33,7 +244,39 @@ interface ModelCacheEntry {
   status: ModelLoadingStatus;
   lastUsed: number;
   loadPromise: Promise<any> | null;
+  abortController: AbortController | null; // Controls the in-flight load
+  loadWaiters: number; // Callers currently waiting on the in-flight load
   config: AIModelConfig;
+  loadedConfig: AIModelConfig | null; // Effective config of the loaded variant
+  variant: string | null;
+  progressListeners: Set<ModelProgressCallback>;
+  memoryBytes: number; // Measured (or estimated) footprint while loaded
+  pinned: boolean;
+  leaseCount: number;
+  pendingRelease: PendingRelease | null; // Release deferred until the last lease ends
+  batcher: InferenceBatcher | null; // Created on the first batched run()
+  loadTiming: ModelLoadTiming | null; // Phases of the successful attempt of the current load
+  lastError: ModelLoaderError | null; // Most recent load failure, cleared by a successful load
+  retired: RetiredModel[]; // Versions replaced by updateModel, disposed once their leases end
+  updatePromise: Promise<void> | null; // The update in progress, if any
+}
+
+/**
+ * A model instance replaced by updateModel while still leased
+ */
+interface RetiredModel {
+  model: any;
+  config: AIModelConfig;
+  leases: number;
+}
+
+/**
+ * A release requested while the model was leased
+ */
+interface PendingRelease {
+  reason: 'unloaded' | 'evicted' | 'expired';
+  done: Promise<void>;
+  resolve: () => void;
 }
 
 /**
@@ -41,203 +284,1774 @@ interface ModelCacheEntry {
  * Handles the lazy loading and caching of AI models
  */
 export class AIModelLoader {
+  private static defaultAdapters: Map<string, ModelAdapter> = new Map();
+  private adapters: Map<string, ModelAdapter> = new Map();
   private modelCache: Map<string, ModelCacheEntry> = new Map();
   private maxCacheSize: number;
+  private maxMemoryBytes: number;
+  private evictionPolicy: EvictionPolicy;
   private cacheTtl: number; // Time-to-live in milliseconds
   private isInitialized: boolean = false;
-  private loadingQueue: Set<string> = new Set();
-  private loadingPromises: Map<string, Promise<any>> = new Map();
+  private loadQueue: LoadQueue;
+  private events: ModelEventEmitter = new ModelEventEmitter();
+  private persistentCache: PersistentModelCache | null;
+  private development: boolean;
+  private leaseLeakWarningMs: number;
+  private scheduler: ModelScheduler;
+  private sweepTimer: TimerHandle | null = null;
+  private lifecycleUnsubscribe: (() => void) | null = null;
+  private initOptions: AIModelLoaderInitOptions = {};
+  private metrics: MetricsCollector = new MetricsCollector();
+  private metricsExporters: Map<MetricsExporter, TimerHandle> = new Map();
+  private root: AIModelLoader = this; // Owner of the shared memory budget
+  private scopes: Map<string, AIModelLoader> = new Map(); // Only populated on the root
+  private scopeName: string | null = null;
+  private baseUrl: string | undefined;
+  private resolveUrl: ModelUrlResolver | undefined;
+  private requestInit: RequestInit | undefined;
+  private fetchFunc: FetchFunction | undefined;
+  private coordinator: TabCoordinator | null;
 
   /**
    * Create a new AIModelLoader instance
    * @param options Configuration options
    */
-  constructor(options: {
-    maxCacheSize?: number;
-    cacheTtl?: number; // in milliseconds
-  } = {}) {
-    this.maxCacheSize = options.maxCacheSize || 5;
+  constructor(options: AIModelLoaderOptions = {}) {
+    if (options.maxCacheSize !== undefined && !(options.maxCacheSize >= 1)) {
+      throw new RangeError(`maxCacheSize must be at least 1, got ${options.maxCacheSize}.`);
+    }
+    this.maxCacheSize = options.maxCacheSize ?? Infinity;
+    this.maxMemoryBytes = options.maxMemoryBytes || Infinity;
+    this.evictionPolicy = options.evictionPolicy || 'lru';
     this.cacheTtl = options.cacheTtl || 30 * 60 * 1000; // Default: 30 minutes
+    this.persistentCache = options.persistentCache || null;
+    this.development = options.development ?? isDevelopmentBuild();
+    this.leaseLeakWarningMs = options.leaseLeakWarningMs ?? (this.development ? 60 * 1000 : 0);
+    this.scheduler = options.scheduler || defaultScheduler;
+    this.loadQueue = new LoadQueue(options.maxConcurrentLoads || 2);
+    this.baseUrl = options.baseUrl;
+    this.resolveUrl = options.resolveUrl;
+    this.requestInit = options.requestInit;
+    this.fetchFunc = options.fetchFunc;
+    this.coordinator = options.coordinator || null;
   }
 
   /**
    * Initialize the model loader
+   * @param options Optional background behaviour: TTL sweeping and lifecycle-aware unloading
    */
-  public async initialize(): Promise<void> {
+  public async initialize(options: AIModelLoaderInitOptions = {}): Promise<void> {
     if (this.isInitialized) return;
 
-    // Add initialization logic here if needed
-    // For example, setting up event listeners for network status
+    this.initOptions = options;
+
+    if (options.autoCleanup) {
+      this.sweepTimer = this.scheduler.setInterval(
+        () => this.cleanupExpiredModels(),
+        options.sweepIntervalMs || 60 * 1000
+      );
+    }
+
+    // Node.js has no page lifecycle to follow; the heap is only sampled when acted on
+    const lifecycleSource = options.lifecycleSource === undefined
+      ? (isNodeRuntime() ? null : createBrowserLifecycleSource({
+        scheduler: this.scheduler,
+        memoryPollIntervalMs: options.unloadOnMemoryPressure ? undefined : 0
+      }))
+      : options.lifecycleSource;
+    if (lifecycleSource) {
+      this.lifecycleUnsubscribe = lifecycleSource.subscribe(signal => this.handleLifecycleSignal(signal));
+    }
 
     this.isInitialized = true;
   }
 
+  /**
+   * React to a page lifecycle signal by unloading idle models
+   * Called automatically for the configured lifecycle source; apps may also
+   * forward their own signals (e.g. from a native shell).
+   * @param signal The lifecycle signal
+   */
+  public handleLifecycleSignal(signal: PageLifecycleSignal): void {
+    switch (signal) {
+      case 'hidden':
+        // The page may never become visible again
+        this.flushMetrics();
+        if (this.initOptions.unloadWhenHidden) {
+          this.unloadIdleModels(this.initOptions.hiddenIdleMs || 0, 'expired');
+        }
+        break;
+
+      case 'freeze':
+        if (this.initOptions.unloadWhenHidden) {
+          this.unloadIdleModels(0, 'evicted');
+        }
+        break;
+
+      case 'memory-pressure':
+        if (this.initOptions.unloadOnMemoryPressure) {
+          this.unloadIdleModels(0, 'evicted');
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    // Scopes follow their parent's page lifecycle
+    if (this.root === this) {
+      for (const scope of this.scopes.values()) scope.handleLifecycleSignal(signal);
+    }
+  }
+
+  /**
+   * Register an adapter available to every loader instance
+   * @param adapter The adapter to register
+   */
+  public static registerDefaultAdapter(adapter: ModelAdapter<any, any>): void {
+    AIModelLoader.defaultAdapters.set(adapter.modelType, adapter);
+  }
+
+  /**
+   * Register an adapter for this loader, overriding any default for its modelType
+   * @param adapter The adapter to register
+   */
+  public registerAdapter(adapter: ModelAdapter<any, any>): void {
+    this.adapters.set(adapter.modelType, adapter);
+  }
+
+  /**
+   * Get the adapter responsible for a modelType
+   * @param modelType The model type
+   */
+  public getAdapter(modelType: ModelType): ModelAdapter | undefined {
+    return this.adapters.get(modelType) ||
+      this.root.adapters.get(modelType) ||
+      AIModelLoader.defaultAdapters.get(modelType);
+  }
+
+  /**
+   * Create a child loader with its own registry and cache settings
+   * Scopes share this loader's memory budget: a load in one scope may evict
+   * idle models of another. Each scope keeps its own maxCacheSize and cacheTtl.
+   * @param namespace Unique name of the scope, e.g. a feature area or tenant
+   * @param options Options of the scope
+   */
+  public createScope(namespace: string, options: AIModelScopeOptions = {}): AIModelLoader {
+    const root = this.root;
+    if (root.scopes.has(namespace)) {
+      throw new Error(`A model loader scope named '${namespace}' already exists.`);
+    }
+
+    const scope = new AIModelLoader({
+      persistentCache: root.persistentCache || undefined,
+      development: root.development,
+      leaseLeakWarningMs: root.leaseLeakWarningMs,
+      baseUrl: root.baseUrl,
+      resolveUrl: root.resolveUrl,
+      requestInit: root.requestInit,
+      fetchFunc: root.fetchFunc,
+      ...options,
+      scheduler: root.scheduler
+    });
+    scope.root = root;
+    scope.scopeName = namespace;
+    root.scopes.set(namespace, scope);
+    return scope;
+  }
+
+  /**
+   * Get a scope created with createScope
+   * @param namespace The name of the scope
+   */
+  public getScope(namespace: string): AIModelLoader | undefined {
+    return this.root.scopes.get(namespace);
+  }
+
+  /**
+   * Name of this scope, or null for a loader created directly
+   */
+  public get namespace(): string | null {
+    return this.scopeName;
+  }
+
+  /**
+   * Enable, replace or disable the persistent storage tier
+   * @param cache The persistent cache to use, or null to disable it
+   */
+  public setPersistentCache(cache: PersistentModelCache | null): void {
+    this.persistentCache = cache;
+  }
+
+  /**
+   * Get the persistent storage tier, if configured
+   */
+  public getPersistentCache(): PersistentModelCache | null {
+    return this.persistentCache;
+  }
+
+  /**
+   * Remove persisted copies of a model, or of every model
+   * @param modelName Optional name of the model to purge (default: all models)
+   */
+  public async purgePersistentCache(modelName?: string): Promise<void> {
+    if (!this.persistentCache) return;
+
+    if (modelName) {
+      await this.persistentCache.purge(modelName);
+    } else {
+      await this.persistentCache.purgeAll();
+    }
+  }
+
   /**
    * Register a model with the loader
    * @param config The model configuration
    */
   public registerModel(config: AIModelConfig): void {
     if (this.modelCache.has(config.name)) {
-      console.warn(`Model '${config.name}' is already registered.`);
+      console.warn(`Model '${config.name}' is already registered. Use updateModel() to change its configuration.`);
       return;
     }
 
+    this.validateConfig(config);
+
     this.modelCache.set(config.name, {
       model: null,
       status: ModelLoadingStatus.IDLE,
-      lastUsed: Date.now(),
+      lastUsed: this.scheduler.now(),
       loadPromise: null,
-      config: config
+      abortController: null,
+      loadWaiters: 0,
+      config: config,
+      loadedConfig: null,
+      variant: null,
+      progressListeners: new Set(),
+      memoryBytes: 0,
+      pinned: !!config.pinned,
+      leaseCount: 0,
+      pendingRelease: null,
+      batcher: null,
+      loadTiming: null,
+      lastError: null,
+      retired: [],
+      updatePromise: null
     });
+
+    this.emit('registered', config.name, ModelLoadingStatus.IDLE, ModelLoadingStatus.IDLE);
+    this.purgeStaleVersions(config);
   }
 
   /**
-   * Get the loading status of a model
-   * @param modelName The name of the model
+   * Check a configuration's dependencies and let the adapters validate it
+   * @param config The model configuration
    */
-  public getModelStatus(modelName: string): ModelLoadingStatus {
-    const entry = this.modelCache.get(modelName);
-    return entry ? entry.status : ModelLoadingStatus.IDLE;
+  private validateConfig(config: AIModelConfig): void {
+    // Dependencies must already be registered, which also rules out cycles
+    for (const dependency of config.dependencies || []) {
+      if (dependency === config.name) {
+        throw new ModelDependencyError(config.name, `Model '${config.name}' depends on itself.`);
+      }
+      if (!this.modelCache.has(dependency)) {
+        throw new ModelDependencyError(
+          config.name,
+          `Model '${config.name}' depends on '${dependency}', which is not registered. ` +
+          `Register it first or use registerModels().`
+        );
+      }
+    }
+
+    // Let the adapters reject invalid configurations up front
+    for (const { config: variantConfig } of this.resolveVariants(config)) {
+      this.getAdapter(variantConfig.modelType)?.validate?.(variantConfig);
+    }
   }
 
   /**
-   * Lazy load a model on demand
-   * @param modelName The name of the model to load
-   * @param config Optional model configuration (if not previously registered)
+   * Drop stored copies of a model's other versions, which will never be used again
+   * @param config The model configuration
    */
-  public async loadModel<T = any>(
-    modelName: string, 
-    config?: AIModelConfig
-  ): Promise<T> {
-    // If this is a new model, register it first
-    if (!this.modelCache.has(modelName) && config) {
-      this.registerModel(config);
+  private purgeStaleVersions(config: AIModelConfig): void {
+    if (this.persistentCache && config.version && config.persist !== false) {
+      this.persistentCache.purgeStale(config.name, config.version).catch(error => {
+        console.warn(`Failed to purge stale copies of model '${config.name}':`, error);
+      });
     }
+  }
 
+  /**
+   * Replace a model's configuration, e.g. with a new version, without downtime
+   * A loaded model keeps serving while the new version loads and warms up in
+   * the background, then the new version is swapped in. The previous instance
+   * is disposed once its outstanding leases are released. If the new version
+   * fails to load or warm up, the current one stays in place.
+   * Models that are not loaded simply take the new configuration.
+   * @param modelName The name of the model
+   * @param updates Configuration changes, e.g. a new version and modelUrl
+   * @param options Load options for the new version (default priority: 'low')
+   * @throws The new version's load error, once the current version is back in place
+   */
+  public updateModel(
+    modelName: string,
+    updates: Partial<Omit<AIModelConfig, 'name'>>,
+    options: ModelLoadOptions = {}
+  ): Promise<void> {
     const entry = this.modelCache.get(modelName);
     if (!entry) {
-      throw new Error(`Model '${modelName}' is not registered.`);
+      return Promise.reject(new ModelNotRegisteredError(modelName));
     }
 
-    // Update last used timestamp
-    entry.lastUsed = Date.now();
+    // Updates of the same model apply one after another
+    const update = (entry.updatePromise || Promise.resolve())
+      .catch(() => {})
+      .then(() => this.performUpdate(modelName, entry, updates, options));
+    entry.updatePromise = update;
 
-    // Return cached model if available
-    if (entry.model && entry.status === ModelLoadingStatus.LOADED) {
-      return entry.model as T;
+    const done = () => {
+      if (entry.updatePromise === update) entry.updatePromise = null;
+    };
+    update.then(done, done);
+    return update;
+  }
+
+  /**
+   * Apply an update queued by updateModel
+   */
+  private async performUpdate(
+    modelName: string,
+    entry: ModelCacheEntry,
+    updates: Partial<Omit<AIModelConfig, 'name'>>,
+    options: ModelLoadOptions
+  ): Promise<void> {
+    const config: AIModelConfig = { ...entry.config, ...updates, name: modelName };
+    this.validateConfig(config);
+    if (config.dependencies?.some(dependency => this.dependsOn(dependency, modelName))) {
+      throw new ModelDependencyError(modelName, `Updating model '${modelName}' would create a circular dependency.`);
     }
 
-    // If already loading, return the existing promise
-    if (entry.status === ModelLoadingStatus.LOADING && entry.loadPromise) {
-      return entry.loadPromise as Promise<T>;
+    // Let an in-flight load settle so it cannot overwrite the update
+    if (entry.loadPromise) {
+      await entry.loadPromise.catch(() => {});
+    }
+    if (this.modelCache.get(modelName) !== entry) {
+      throw new ModelNotRegisteredError(modelName);
+    }
+    if (updates.pinned !== undefined) {
+      entry.pinned = !!updates.pinned;
     }
 
-    // Start loading the model
-    entry.status = ModelLoadingStatus.LOADING;
-    
+    // Nothing to swap: the next load uses the new configuration
+    if (entry.status !== ModelLoadingStatus.LOADED) {
+      this.applyConfig(modelName, entry, config);
+      return;
+    }
+
+    const startTime = this.scheduler.now();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(new ModelLoadCancelledError(modelName, options.signal!.reason));
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    if (options.onProgress) {
+      entry.progressListeners.add(options.onProgress);
+    }
+
+    let loaded: { model: any; variant: string; config: AIModelConfig };
+    let timing: ModelLoadTiming | null;
     try {
-      // Manage model loading cache size
-      await this.ensureCacheSpace();
-      
-      // Create loading promise - use the stored config if no new config is provided
-      const modelConfig = config || entry.config;
-      if (!modelConfig || typeof modelConfig.loadModel !== 'function') {
-        throw new Error(`No valid load function found for model '${modelName}'`);
-      }
-      
-      entry.loadPromise = modelConfig.loadModel();
-      
-      // Wait for the model to load
-      const model = await entry.loadPromise;
-      
-      // Update cache
-      entry.model = model;
-      entry.status = ModelLoadingStatus.LOADED;
-      
-      return model as T;
+      const priority = options.priority || 'low';
+      await this.loadDependencies(modelName, config, controller.signal, priority);
+      await this.ensureCacheSpace(modelName, config.estimatedBytes || 0);
+      loaded = await this.loadQueue.schedule(
+        `${modelName}#update`,
+        priority,
+        () => this.loadWithFallback(
+          modelName,
+          entry,
+          config,
+          controller.signal,
+          options.timeoutMs ?? config.loadTimeoutMs
+        ),
+        controller.signal
+      );
     } catch (error) {
-      entry.status = ModelLoadingStatus.ERROR;
-      console.error(`Failed to load model '${modelName}':`, error);
-      throw error;
+      // The current version was never touched
+      const updateError = error instanceof ModelLoadCancelledError
+        ? error
+        : toModelLoaderError(error, modelName, config.modelUrl);
+      this.emit('rolledBack', modelName, entry.status, entry.status, {
+        duration: this.scheduler.now() - startTime,
+        error: updateError
+      });
+      throw updateError;
     } finally {
-      entry.loadPromise = null;
+      timing = entry.loadTiming;
+      entry.loadTiming = null;
+      options.signal?.removeEventListener('abort', onAbort);
+      if (options.onProgress) entry.progressListeners.delete(options.onProgress);
+    }
+
+    // Unloaded or reloading while the update ran: keep the configuration for the next load
+    if (entry.status !== ModelLoadingStatus.LOADED || entry.loadPromise) {
+      await this.disposeModel(loaded.model, loaded.config);
+      this.applyConfig(modelName, entry, config);
+      return;
+    }
+
+    // Swap in the new version; leases on the old one keep it alive
+    const previous: RetiredModel = {
+      model: entry.model,
+      config: entry.loadedConfig || entry.config,
+      leases: entry.leaseCount
+    };
+    entry.model = loaded.model;
+    entry.config = config;
+    entry.loadedConfig = loaded.config;
+    entry.variant = loaded.variant;
+    entry.memoryBytes = this.measureModel(loaded.model, loaded.config);
+    entry.leaseCount = 0;
+    entry.batcher = null;
+    entry.lastError = null;
+    entry.lastUsed = this.scheduler.now();
+
+    const duration = this.scheduler.now() - startTime;
+    this.emit('updated', modelName, ModelLoadingStatus.LOADED, entry.status, {
+      duration,
+      variant: loaded.variant,
+      timing: timing ? { ...timing, totalMs: duration } : undefined
+    });
+    this.purgeStaleVersions(config);
+
+    if (previous.leases > 0) {
+      entry.retired.push(previous);
+    } else {
+      await this.disposeModel(previous.model, previous.config);
+    }
+
+    // A release requested while the old version was leased now applies to the new one
+    const pending = entry.pendingRelease;
+    if (pending) {
+      entry.pendingRelease = null;
+      this.releaseModel(modelName, pending.reason).then(pending.resolve);
     }
+
+    // The measured footprint may exceed the estimate
+    await this.ensureCacheSpace(modelName, entry.memoryBytes);
   }
 
   /**
-   * Preload a model in the background
-   * @param modelName The name of the model to preload
+   * Store a model's new configuration without loading it
    */
-  public preloadModel(modelName: string): void {
-    const entry = this.modelCache.get(modelName);
-    if (!entry || entry.status !== ModelLoadingStatus.IDLE) return;
-    
-    // Add to loading queue but don't await
-    this.loadModel(modelName).catch(err => 
-      console.warn(`Preloading model '${modelName}' failed:`, err)
-    );
+  private applyConfig(modelName: string, entry: ModelCacheEntry, config: AIModelConfig): void {
+    entry.config = config;
+    entry.batcher = null;
+    this.emit('updated', modelName, entry.status, entry.status);
+    this.purgeStaleVersions(config);
   }
 
   /**
-   * Unload a model from memory
-   * @param modelName The name of the model to unload
+   * Check whether a model depends, directly or not, on another model
+   * @param modelName The model whose dependencies are followed
+   * @param target The model to look for
    */
-  public unloadModel(modelName: string): void {
-    const entry = this.modelCache.get(modelName);
-    if (!entry || entry.status !== ModelLoadingStatus.LOADED) return;
+  private dependsOn(modelName: string, target: string, visited: Set<string> = new Set()): boolean {
+    if (modelName === target) return true;
+    if (visited.has(modelName)) return false;
+    visited.add(modelName);
 
-    // Perform model cleanup if needed
-    // This is model-specific and may involve calling dispose() methods
-    
-    // Update cache
-    entry.model = null;
-    entry.status = ModelLoadingStatus.IDLE;
+    const dependencies = this.modelCache.get(modelName)?.config.dependencies || [];
+    return dependencies.some(dependency => this.dependsOn(dependency, target, visited));
   }
 
   /**
-   * Ensures there's enough space in the cache for a new model
-   * by removing least recently used models if necessary
+   * Register several models at once, in dependency order
+   * @param configs The model configurations
+   * @throws ModelDependencyError if a dependency is missing or circular
    */
-  private async ensureCacheSpace(): Promise<void> {
-    if (this.modelCache.size <= this.maxCacheSize) return;
+  public registerModels(configs: AIModelConfig[]): void {
+    const batch = new Map(configs.map(config => [config.name, config]));
 
-    // Get sorted entries by last used time (oldest first)
-    const entries = Array.from(this.modelCache.entries())
-      .filter(([modelId, entry]) => entry.status === ModelLoadingStatus.LOADED)
-      .sort(([idA, entryA], [idB, entryB]) => entryA.lastUsed - entryB.lastUsed);
-
-    // Unload models until we're under the limit
-    while (entries.length > 0 && this.modelCache.size > this.maxCacheSize) {
-      const [modelName, unused] = entries.shift()!;
-      this.unloadModel(modelName);
+    for (const config of configs) {
+      for (const dependency of config.dependencies || []) {
+        if (!batch.has(dependency) && !this.modelCache.has(dependency)) {
+          throw new ModelDependencyError(
+            config.name,
+            `Model '${config.name}' depends on '${dependency}', which is not registered.`
+          );
+        }
+      }
     }
+
+    // Depth-first topological sort; reaching a model that is still being visited closes a cycle
+    const ordered: AIModelConfig[] = [];
+    const visiting: string[] = [];
+    const visited = new Set<string>();
+    const visit = (config: AIModelConfig) => {
+      if (visited.has(config.name)) return;
+      if (visiting.includes(config.name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(config.name)), config.name];
+        throw new ModelDependencyError(config.name, `Circular model dependency: ${cycle.join(' -> ')}.`);
+      }
+
+      visiting.push(config.name);
+      for (const dependency of config.dependencies || []) {
+        const dependencyConfig = batch.get(dependency);
+        if (dependencyConfig) visit(dependencyConfig);
+      }
+      visiting.pop();
+      visited.add(config.name);
+      ordered.push(config);
+    };
+    configs.forEach(visit);
+
+    ordered.forEach(config => this.registerModel(config));
   }
 
   /**
-   * Clean up expired models based on TTL
+   * Subscribe to model lifecycle events
+   * @param type The event type to listen for, or '*' for all events
+   * @param listener Callback invoked with the event details
+   * @returns A function that removes the listener
    */
-  public cleanupExpiredModels(): void {
-    const now = Date.now();
-    for (const [modelName, entry] of this.modelCache.entries()) {
-      if (
-        entry.status === ModelLoadingStatus.LOADED &&
-        now - entry.lastUsed > this.cacheTtl
-      ) {
-        this.unloadModel(modelName);
-      }
-    }
+  public on(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): () => void {
+    return this.events.on(type, listener);
   }
 
   /**
-   * Dispose all models and clean up resources
+   * Remove a lifecycle event listener
+   * @param type The event type the listener was registered for
+   * @param listener The listener to remove
    */
-  public dispose(): void {
-    for (const [modelName, entry] of this.modelCache.entries()) {
-      this.unloadModel(modelName);
+  public off(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): void {
+    this.events.off(type, listener);
+  }
+
+  /**
+   * Get the loading status of a model in this tab
+   * A model loaded in another tab cannot be used here, so other tabs are not
+   * reflected; getModelInfo reports whether one is loading or has loaded it.
+   * @param modelName The name of the model
+   */
+  public getModelStatus(modelName: string): ModelLoadingStatus {
+    const entry = this.modelCache.get(modelName);
+    return entry ? entry.status : ModelLoadingStatus.IDLE;
+  }
+
+  /**
+   * Get a model's status in this tab and in the other tabs sharing its coordinator
+   * Tabs where the model is idle are omitted.
+   * @param modelName The name of the model
+   * @returns Statuses keyed by tab id
+   */
+  public getTabStatuses(modelName: string): Record<string, ModelLoadingStatus> {
+    if (!this.coordinator) return {};
+
+    const statuses = this.coordinator.getRemoteStatuses(modelName);
+    const status = this.getModelStatus(modelName);
+    if (status !== ModelLoadingStatus.IDLE) {
+      statuses[this.coordinator.tabId] = status;
     }
-    this.modelCache.clear();
-    this.isInitialized = false;
+    return statuses;
+  }
+
+  /**
+   * Get a snapshot of a model's state, including which variant is loaded
+   * and whether other tabs sharing the coordinator are loading or have loaded it
+   * @param modelName The name of the model
+   */
+  public getModelInfo(modelName: string): ModelInfo | null {
+    const entry = this.modelCache.get(modelName);
+    if (!entry) return null;
+
+    const config = entry.loadedConfig || entry.config;
+    const remoteStatuses = Object.values(this.coordinator?.getRemoteStatuses(modelName) || {});
+    return {
+      name: modelName,
+      status: entry.status,
+      version: config.version,
+      variant: entry.variant,
+      backend: entry.model ? this.getAdapter(config.modelType)?.backend?.(entry.model, config) ?? null : null,
+      memoryBytes: entry.memoryBytes,
+      pinned: entry.pinned,
+      leases: entry.leaseCount,
+      lastUsed: entry.lastUsed,
+      dependencies: [...(entry.config.dependencies || [])],
+      loadingElsewhere: remoteStatuses.includes(ModelLoadingStatus.LOADING),
+      loadedElsewhere: remoteStatuses.includes(ModelLoadingStatus.LOADED)
+    };
+  }
+
+  /**
+   * Get the most recent load failure of a model
+   * @param modelName The name of the model
+   * @returns The error, or null if the model has not failed since it last loaded
+   */
+  public getLastError(modelName: string): ModelLoaderError | null {
+    return this.modelCache.get(modelName)?.lastError || null;
   }
+
+  /**
+   * Get a loaded model instance without triggering a load
+   * @param modelName The name of the model
+   * @returns The model, or null if it is not currently loaded
+   */
+  public getModel<T = any>(modelName: string): T | null {
+    const entry = this.modelCache.get(modelName);
+    return entry && entry.status === ModelLoadingStatus.LOADED ? entry.model as T : null;
+  }
+
+  /**
+   * Lazy load a model on demand
+   * @param modelName The name of the model to load
+   * @param config Optional model configuration (if not previously registered)
+   * @param options Optional per-call options such as a progress callback or abort signal
+   */
+  public async loadModel<T = any>(
+    modelName: string, 
+    config?: AIModelConfig,
+    options: ModelLoadOptions = {}
+  ): Promise<T> {
+    // If this is a new model, register it first
+    if (!this.modelCache.has(modelName) && config) {
+      this.registerModel(config);
+    }
+
+    const entry = this.modelCache.get(modelName);
+    if (!entry) {
+      throw new ModelNotRegisteredError(modelName);
+    }
+
+    // Update last used timestamp
+    entry.lastUsed = this.scheduler.now();
+
+    // Return cached model if available
+    if (entry.model && entry.status === ModelLoadingStatus.LOADED) {
+      return entry.model as T;
+    }
+
+    // Every caller of the in-flight load has cancelled and it is winding down:
+    // start over once it has settled instead of joining it
+    const cancelled = entry.loadPromise && entry.abortController?.signal.aborted
+      ? entry.loadPromise.catch(() => {})
+      : null;
+    if (cancelled) {
+      entry.progressListeners.clear();
+    }
+    if (options.onProgress) {
+      entry.progressListeners.add(options.onProgress);
+    }
+
+    const priority = options.priority || 'high';
+
+    if (entry.loadPromise && !cancelled) {
+      // Already queued or loading; an explicit load jumps ahead of background preloads
+      this.loadQueue.promote(modelName, priority);
+    } else {
+      // Use the stored config if no new config is provided
+      const modelConfig = config || entry.config;
+      const controller = new AbortController();
+      // Dependencies load before the model takes a queue slot, so a waiting
+      // dependent never holds the slot its dependencies need
+      const start = () => this.loadDependencies(modelName, modelConfig, controller.signal, priority)
+        .then(() => this.loadQueue.schedule(
+          modelName,
+          priority,
+          () => this.performLoad(
+            modelName,
+            entry,
+            modelConfig,
+            controller.signal,
+            options.timeoutMs ?? modelConfig.loadTimeoutMs
+          ),
+          controller.signal
+        ));
+      const load = cancelled ? cancelled.then(start) : start();
+      entry.abortController = controller;
+      entry.loadWaiters = 0;
+      entry.loadPromise = load;
+
+      // Callers observe the outcome through waitForLoad; a load cancelled
+      // while still queued never reaches performLoad, so clean up here
+      load.catch(error => {
+        if (!(error instanceof ModelLoadCancelledError)) {
+          entry.lastError = toModelLoaderError(error, modelName, modelConfig.modelUrl);
+        }
+        if (entry.loadPromise === load) {
+          entry.loadPromise = null;
+          entry.abortController = null;
+          entry.progressListeners.clear();
+        }
+      });
+    }
+
+    return this.waitForLoad<T>(modelName, entry, options.signal);
+  }
+
+  /**
+   * Load a model's dependencies in parallel
+   * @param modelName The dependent model
+   * @param config The dependent model's configuration
+   * @param signal Aborts the dependent's load
+   * @param priority The dependent's load priority
+   */
+  private async loadDependencies(
+    modelName: string,
+    config: AIModelConfig,
+    signal: AbortSignal,
+    priority: LoadPriority
+  ): Promise<void> {
+    const dependencies = config.dependencies || [];
+    if (dependencies.length === 0) return;
+
+    await Promise.all(dependencies.map(async dependency => {
+      try {
+        await this.loadModel(dependency, undefined, { signal, priority });
+      } catch (error) {
+        if (error instanceof ModelLoadCancelledError) {
+          throw new ModelLoadCancelledError(modelName, error.reason);
+        }
+        throw new ModelDependencyError(
+          modelName,
+          `Dependency '${dependency}' of model '${modelName}' failed to load: ` +
+          `${error instanceof Error ? error.message : String(error)}`,
+          error
+        );
+      }
+    }));
+  }
+
+  /**
+   * Check whether a loaded or loading model depends on a model
+   * @param modelName The model that might be needed
+   */
+  private isNeededByDependent(modelName: string): boolean {
+    for (const entry of this.modelCache.values()) {
+      if (
+        (entry.status === ModelLoadingStatus.LOADED || entry.loadPromise) &&
+        (entry.config.dependencies || []).includes(modelName)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Load a model and lease it so it stays loaded until released
+   * @param modelName The name of the model to acquire
+   * @param options Optional load options
+   * @returns A lease whose release() must be called when the caller is done
+   */
+  public async acquireModel<T = any>(
+    modelName: string,
+    options: ModelLoadOptions = {}
+  ): Promise<ModelLease<T>> {
+    let model = await this.loadModel<T>(modelName, undefined, options);
+    const entry = this.loadedEntry(modelName);
+    // updateModel may have swapped in a new version meanwhile; lease the current one
+    if (entry.status === ModelLoadingStatus.LOADED) {
+      model = entry.model;
+    }
+    entry.leaseCount++;
+
+    return new ModelLease<T>(modelName, model, {
+      touch: () => {
+        entry.lastUsed = this.scheduler.now();
+      },
+      release: () => this.releaseLease(modelName, entry, model)
+    }, this.leaseLeakWarningMs, this.scheduler);
+  }
+
+  /**
+   * Run inference through the model's adapter, loading the model if needed
+   * The model is leased for the duration of the call. Models configured with
+   * `batching` coalesce concurrent calls given as maps of nested arrays, or
+   * for single-input models as one nested array, into batched inferences.
+   * @param modelName The name of the model
+   * @param inputs One input, a list in input order, or a map by input name
+   * @param options Output selection and format
+   * @returns Plain arrays by default, or tensors the caller must dispose
+   */
+  public async run<T = any>(
+    modelName: string,
+    inputs: ModelInputs,
+    options: ModelRunOptions = {}
+  ): Promise<T> {
+    const entry = this.modelCache.get(modelName);
+    const batching = entry?.config.batching;
+    if (entry && batching && !options.returnTensors) {
+      const arity = await this.modelArity(modelName, options);
+      if (InferenceBatcher.canBatch(inputs, options, arity)) {
+        if (!entry.batcher) {
+          entry.batcher = new InferenceBatcher(
+            (batchInputs, batchOptions) => this.runUnbatched(modelName, batchInputs, batchOptions),
+            batching,
+            this.scheduler
+          );
+        }
+        return entry.batcher.run(inputs, options, arity);
+      }
+    }
+
+    return this.runUnbatched<T>(modelName, inputs, options);
+  }
+
+  /**
+   * Count the inputs and outputs of a model, loading it if needed
+   * The config's signature wins over what the adapter reads from the model.
+   * @param modelName The name of the model
+   * @param options The run options, whose output selection sets the output count
+   */
+  private async modelArity(modelName: string, options: ModelRunOptions): Promise<ModelArity> {
+    const model = await this.loadModel(modelName);
+    const entry = this.loadedEntry(modelName);
+    const config = entry.loadedConfig || entry.config;
+    const names = this.getAdapter(config.modelType)?.tensorNames?.(model, config);
+
+    const outputs = options.outputs !== undefined
+      ? (Array.isArray(options.outputs) ? options.outputs.length : 1)
+      : config.signature?.outputs?.length ?? names?.outputs.length ?? null;
+    return { inputs: config.signature?.inputs?.length ?? names?.inputs.length ?? null, outputs };
+  }
+
+  /**
+   * Run a single inference through the model's adapter
+   */
+  private async runUnbatched<T = any>(
+    modelName: string,
+    inputs: ModelInputs,
+    options: ModelRunOptions
+  ): Promise<T> {
+    const lease = await this.acquireModel(modelName);
+    try {
+      const entry = this.loadedEntry(modelName);
+      const config = entry.retired.find(retired => retired.model === lease.model)?.config ||
+        entry.loadedConfig || entry.config;
+      const adapter = this.getAdapter(config.modelType);
+      if (!adapter?.run) {
+        throw new Error(`The '${config.modelType}' adapter used by model '${modelName}' does not support run().`);
+      }
+
+      lease.touch();
+      const startedAt = this.scheduler.now();
+      try {
+        const outputs = await adapter.run(lease.model, inputs, config, options);
+        this.metrics.recordInference(modelName, this.scheduler.now() - startedAt);
+        return outputs;
+      } catch (error) {
+        this.metrics.recordInference(modelName, this.scheduler.now() - startedAt, true);
+        throw error;
+      }
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * Get a model's cache entry after awaiting its load
+   * @param modelName The name of the model
+   * @throws ModelNotRegisteredError if the loader was disposed meanwhile
+   */
+  private loadedEntry(modelName: string): ModelCacheEntry {
+    const entry = this.modelCache.get(modelName);
+    if (!entry) {
+      throw new ModelNotRegisteredError(modelName);
+    }
+    return entry;
+  }
+
+  /**
+   * Drop a lease and perform any release deferred while it was held
+   */
+  private releaseLease(modelName: string, entry: ModelCacheEntry, model: any): void {
+    // Leases on a version replaced by updateModel dispose it once they all end
+    const retired = entry.retired.find(item => item.model === model);
+    if (retired) {
+      if (--retired.leases === 0) {
+        entry.retired.splice(entry.retired.indexOf(retired), 1);
+        this.disposeModel(retired.model, retired.config);
+      }
+      return;
+    }
+
+    entry.leaseCount = Math.max(0, entry.leaseCount - 1);
+    entry.lastUsed = this.scheduler.now();
+
+    const pending = entry.pendingRelease;
+    if (entry.leaseCount === 0 && pending && this.modelCache.get(modelName) === entry) {
+      entry.pendingRelease = null;
+      this.releaseModel(modelName, pending.reason).then(pending.resolve);
+    }
+  }
+
+  /**
+   * Run a load to completion and update the cache entry with its outcome
+   * @param modelName The name of the model
+   * @param entry The model's cache entry
+   * @param modelConfig The configuration to load with
+   * @param signal Aborted once every caller waiting on this load has cancelled
+   * @param timeoutMs Optional timeout for each load attempt
+   */
+  private async performLoad(
+    modelName: string,
+    entry: ModelCacheEntry,
+    modelConfig: AIModelConfig,
+    signal: AbortSignal,
+    timeoutMs?: number
+  ): Promise<any> {
+    const previousStatus = entry.status;
+    const startTime = this.scheduler.now();
+    entry.status = ModelLoadingStatus.LOADING;
+    this.emit('loadStart', modelName, previousStatus, entry.status);
+    
+    try {
+      // Make room for the model using its expected footprint
+      await this.ensureCacheSpace(modelName, modelConfig.estimatedBytes || 0);
+      
+      // Wait for the model to load
+      const { model, variant, config: loadedConfig } =
+        await this.loadWithFallback(modelName, entry, modelConfig, signal, timeoutMs);
+
+      // Cancelled (e.g. by dispose()) just as the model finished loading
+      if (signal.aborted) {
+        await this.disposeModel(model, loadedConfig);
+        throw signal.reason instanceof ModelLoadCancelledError
+          ? signal.reason
+          : new ModelLoadCancelledError(modelName, signal.reason);
+      }
+      
+      // Update cache
+      entry.model = model;
+      entry.variant = variant;
+      entry.loadedConfig = loadedConfig;
+      entry.memoryBytes = this.measureModel(model, loadedConfig);
+      entry.status = ModelLoadingStatus.LOADED;
+      entry.lastError = null;
+      
+      // The measured footprint may exceed the estimate
+      await this.ensureCacheSpace(modelName, entry.memoryBytes);
+      const duration = this.scheduler.now() - startTime;
+      this.emit('loaded', modelName, ModelLoadingStatus.LOADING, entry.status, {
+        duration,
+        variant,
+        timing: entry.loadTiming ? { ...entry.loadTiming, totalMs: duration } : undefined
+      });
+      
+      return model;
+    } catch (error) {
+      // A cancelled load leaves the entry reusable
+      if (error instanceof ModelLoadCancelledError) {
+        entry.status = ModelLoadingStatus.IDLE;
+        this.emit('cancelled', modelName, ModelLoadingStatus.LOADING, entry.status, {
+          duration: this.scheduler.now() - startTime,
+          error
+        });
+        throw error;
+      }
+
+      // Custom loaders may throw anything; callers always get a ModelLoaderError with the original as its cause
+      const loadError = toModelLoaderError(error, modelName, modelConfig.modelUrl);
+      entry.status = ModelLoadingStatus.ERROR;
+      this.emit('error', modelName, ModelLoadingStatus.LOADING, entry.status, {
+        duration: this.scheduler.now() - startTime,
+        error: loadError
+      });
+      console.error(`Failed to load model '${modelName}':`, loadError);
+      throw loadError;
+    } finally {
+      // Unless a new load has taken over after this one was cancelled
+      if (entry.abortController?.signal === signal) {
+        entry.loadPromise = null;
+        entry.abortController = null;
+        entry.loadTiming = null;
+        entry.progressListeners.clear();
+      }
+    }
+  }
+
+  /**
+   * Expand a config into its ordered fallback chain
+   * @param config The model configuration
+   */
+  private resolveVariants(config: AIModelConfig): Array<{ id: string; config: AIModelConfig }> {
+    const chain = [{ id: 'primary', config }];
+
+    for (const { id, ...overrides } of config.variants || []) {
+      chain.push({
+        id,
+        config: {
+          ...config,
+          loadModel: undefined,
+          variants: undefined,
+          // The model's hashes describe its own files, not those at another URL
+          ...(overrides.modelUrl !== undefined ? { integrity: undefined } : {}),
+          ...overrides,
+          name: config.name
+        }
+      });
+    }
+
+    return chain;
+  }
+
+  /**
+   * Walk the fallback chain until one variant loads
+   */
+  private async loadWithFallback(
+    modelName: string,
+    entry: ModelCacheEntry,
+    modelConfig: AIModelConfig,
+    signal: AbortSignal,
+    timeoutMs?: number
+  ): Promise<{ model: any; variant: string; config: AIModelConfig }> {
+    const chain = this.resolveVariants(modelConfig);
+    let lastError: unknown;
+
+    for (let i = 0; i < chain.length; i++) {
+      const { id, config } = chain[i];
+      try {
+        const model = await this.loadWithRetry(
+          modelName,
+          entry,
+          config,
+          id,
+          signal,
+          timeoutMs ?? config.loadTimeoutMs
+        );
+        return { model, variant: id, config };
+      } catch (error) {
+        if (error instanceof ModelLoadCancelledError || i === chain.length - 1) {
+          throw error;
+        }
+
+        lastError = error;
+        console.warn(
+          `Variant '${id}' of model '${modelName}' failed, trying '${chain[i + 1].id}':`, error
+        );
+        this.emit('fallback', modelName, entry.status, entry.status, {
+          error,
+          variant: chain[i + 1].id
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Attempt a load repeatedly according to the model's retry policy
+   */
+  private async loadWithRetry(
+    modelName: string,
+    entry: ModelCacheEntry,
+    modelConfig: AIModelConfig,
+    variant: string,
+    signal: AbortSignal,
+    timeoutMs?: number
+  ): Promise<any> {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...modelConfig.retry };
+    const retryOn = policy.retryOn || isRetryableLoadError;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runAttempt(modelName, entry, modelConfig, variant, signal, timeoutMs);
+      } catch (error) {
+        if (signal.aborted) {
+          throw signal.reason instanceof ModelLoadCancelledError
+            ? signal.reason
+            : new ModelLoadCancelledError(modelName, signal.reason);
+        }
+        if (attempt >= policy.attempts || !retryOn(error, attempt)) {
+          throw error;
+        }
+
+        const delay = Math.min(
+          policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1),
+          policy.maxDelayMs
+        );
+        console.warn(
+          `Loading model '${modelName}' failed (attempt ${attempt} of ${policy.attempts}), ` +
+          `retrying in ${delay}ms:`, error
+        );
+        this.emit('retry', modelName, entry.status, entry.status, { error, attempt });
+        await abortableDelay(delay, signal, this.scheduler);
+      }
+    }
+  }
+
+  /**
+   * Run a single load attempt, bounded by the abort signal and an optional timeout
+   * Fallback variants persist their artifacts apart from the primary source.
+   */
+  private async runAttempt(
+    modelName: string,
+    entry: ModelCacheEntry,
+    modelConfig: AIModelConfig,
+    variant: string,
+    signal: AbortSignal,
+    timeoutMs?: number
+  ): Promise<any> {
+    const attemptController = new AbortController();
+    const onAbort = () => attemptController.abort(signal.reason);
+    signal.addEventListener('abort', onAbort);
+
+    let timer: TimerHandle | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      attemptController.signal.addEventListener('abort', () => reject(attemptController.signal.reason));
+      if (timeoutMs) {
+        timer = this.scheduler.setTimeout(
+          () => attemptController.abort(new ModelLoadTimeoutError(modelName, timeoutMs)),
+          timeoutMs
+        );
+      }
+    });
+
+    let startedAt = this.scheduler.now();
+    const timing: ModelLoadTiming = { totalMs: 0, fetchMs: 0, parseMs: 0, warmupMs: 0, fromCache: null };
+    const baseFetch: FetchFunction = modelConfig.fetchFunc || this.fetchFunc || ((input, init) => fetch(input, init));
+    const isPrimary = variant === 'primary';
+    const persistentCache = modelConfig.persist === false || !this.persistentCache
+      ? null
+      : isPrimary ? this.persistentCache : this.persistentCache.forVariant(variant);
+    let markStored!: () => void;
+    const stored = new Promise<void>(resolve => markStored = resolve);
+    const context: ModelLoadContext = {
+      onProgress: details => {
+        // Adapters that ignore the signal must not report into a load that replaced this one
+        if (!attemptController.signal.aborted) this.reportProgress(modelName, entry, details);
+      },
+      persistentCache,
+      signal: attemptController.signal,
+      markFetched: fromCache => {
+        timing.fetchMs = this.scheduler.now() - startedAt;
+        timing.fromCache = fromCache;
+        markStored();
+      },
+      fetchFunc: this.resolveUrl ? createResolvingFetch(modelName, this.resolveUrl, baseFetch) : baseFetch,
+      requestInit: mergeRequestInit(this.requestInit, modelConfig.requestInit)
+    };
+
+    // With a shared persistent cache, one tab downloads while the others wait and then read the cache
+    const loading = this.coordinator && context.persistentCache
+      ? this.loadExclusive(
+        this.coordinator,
+        PersistentModelCache.key(modelName, modelConfig.version, isPrimary ? null : variant),
+        attemptController.signal,
+        stored,
+        () => {
+          startedAt = this.scheduler.now();
+          return this.runLoad(this.withBaseUrl(modelConfig), context, timing, startedAt);
+        }
+      )
+      : this.runLoad(this.withBaseUrl(modelConfig), context, timing, startedAt);
+
+    // Adapters that ignore the signal may still finish; don't leak what they return
+    loading.then(
+      model => {
+        if (attemptController.signal.aborted) {
+          return this.disposeModel(model, modelConfig);
+        }
+      },
+      () => {}
+    );
+
+    try {
+      if (signal.aborted) onAbort();
+      const model = await Promise.race([loading, aborted]);
+      entry.loadTiming = timing;
+      return model;
+    } finally {
+      if (timer !== undefined) this.scheduler.clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Run a load while holding the cross-tab lock on its persisted files
+   * The lock is released once the files are stored (markFetched), so other
+   * tabs can read them while this tab parses and warms up the model.
+   * @param coordinator The tab coordinator
+   * @param key The persistent cache key of the files
+   * @param signal Stops waiting for the lock when aborted
+   * @param stored Resolves once the files are in the persistent cache
+   * @param load Starts the load
+   */
+  private loadExclusive<T>(
+    coordinator: TabCoordinator,
+    key: string,
+    signal: AbortSignal,
+    stored: Promise<void>,
+    load: () => Promise<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      coordinator.runExclusive(key, signal, () => {
+        const loading = load();
+        loading.then(resolve, reject);
+        return Promise.race([stored, loading.then(() => {}, () => {})]);
+      }).catch(reject);
+    });
+  }
+
+  /**
+   * Wait for the in-flight load of a model on behalf of one caller
+   * The underlying load is only aborted once every waiting caller has cancelled.
+   * @param modelName The name of the model
+   * @param entry The model's cache entry
+   * @param signal Optional signal cancelling this caller's wait
+   */
+  private waitForLoad<T>(
+    modelName: string,
+    entry: ModelCacheEntry,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const loadPromise = entry.loadPromise as Promise<T>;
+    const controller = entry.abortController!;
+    entry.loadWaiters++;
+
+    if (!signal) {
+      return loadPromise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new ModelLoadCancelledError(modelName, signal.reason));
+        if (entry.abortController === controller && --entry.loadWaiters === 0) {
+          controller.abort(new ModelLoadCancelledError(modelName, signal.reason));
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      loadPromise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Resolve a config's model URL, tfjs weight prefix and integrity keys against the base URL
+   * @param config The model configuration
+   */
+  private withBaseUrl(config: AIModelConfig): AIModelConfig {
+    if (!this.baseUrl) return config;
+
+    const { weightPathPrefix } = config as { weightPathPrefix?: string };
+    return {
+      ...config,
+      modelUrl: config.modelUrl && joinBaseUrl(config.modelUrl, this.baseUrl),
+      ...(weightPathPrefix ? { weightPathPrefix: joinBaseUrl(weightPathPrefix, this.baseUrl) } : {}),
+      integrity: config.integrity && Object.fromEntries(
+        Object.entries(config.integrity).map(([url, hash]) => [joinBaseUrl(url, this.baseUrl), hash])
+      )
+    };
+  }
+
+  /**
+   * Load and warm up a model using its config or its adapter
+   * @param config The model configuration
+   * @param context The load context
+   * @param timing Receives the parse and warmup durations
+   * @param startedAt When the load started; fetchMs is measured from the same point
+   */
+  private async runLoad(
+    config: AIModelConfig,
+    context: ModelLoadContext,
+    timing: ModelLoadTiming,
+    startedAt: number
+  ): Promise<any> {
+    const adapter = this.getAdapter(config.modelType);
+    let model: any;
+
+    if (typeof config.loadModel === 'function') {
+      model = await config.loadModel(context);
+    } else if (adapter) {
+      model = await adapter.load(config, context);
+    } else {
+      throw new Error(`No valid load function found for model '${config.name}'`);
+    }
+
+    const loadedAt = this.scheduler.now();
+    timing.parseMs = loadedAt - startedAt - timing.fetchMs;
+
+    if (adapter?.warmup) {
+      try {
+        await adapter.warmup(model, config);
+        timing.warmupMs = this.scheduler.now() - loadedAt;
+      } catch (error) {
+        // Don't leak a model that failed to warm up
+        await this.disposeModel(model, config);
+        throw error;
+      }
+    }
+
+    return model;
+  }
+
+  /**
+   * Release the resources held by a model through its adapter
+   * @param model The model instance
+   * @param config The model configuration
+   */
+  private async disposeModel(model: any, config: AIModelConfig): Promise<void> {
+    const adapter = this.getAdapter(config.modelType);
+    if (!model || !adapter?.dispose) return;
+
+    try {
+      await adapter.dispose(model, config);
+    } catch (error) {
+      console.error(`Failed to dispose model '${config.name}':`, error);
+    }
+  }
+
+  /**
+   * Forward download progress to callers and lifecycle listeners
+   */
+  private reportProgress(
+    modelName: string,
+    entry: ModelCacheEntry,
+    details: ModelLoadProgress
+  ): void {
+    for (const listener of entry.progressListeners) {
+      try {
+        listener(details.fraction, details);
+      } catch (error) {
+        console.error(`Progress callback for model '${modelName}' failed:`, error);
+      }
+    }
+
+    this.emit('progress', modelName, entry.status, entry.status, { progress: details });
+  }
+
+  /**
+   * Preload a model in the background
+   * Preloads run at low priority so explicit loads jump ahead of them.
+   * @param modelName The name of the model to preload
+   * @param options Optional preload options, e.g. a strategy deciding when to start
+   * @returns A function that cancels the preload if it has not finished
+   */
+  public preloadModel(modelName: string, options: PreloadOptions = {}): () => void {
+    const { strategy = preloadImmediately, respectNetwork = true, signal, ...loadOptions } = options;
+    const entry = this.modelCache.get(modelName);
+    if (
+      !entry ||
+      entry.status === ModelLoadingStatus.LOADED ||
+      entry.status === ModelLoadingStatus.ERROR ||
+      signal?.aborted
+    ) {
+      return () => {};
+    }
+
+    const controller = new AbortController();
+    const stopWaiting = strategy.schedule(() => {
+      if (controller.signal.aborted) return;
+
+      // Checked when the preload starts, as conditions may have changed since scheduling
+      if (respectNetwork && isConstrainedNetwork()) return;
+
+      this.loadModel(modelName, undefined, {
+        priority: 'low',
+        ...loadOptions,
+        signal: controller.signal
+      }).catch(err => {
+        if (!(err instanceof ModelLoadCancelledError)) {
+          console.warn(`Preloading model '${modelName}' failed:`, err);
+        }
+      });
+    });
+
+    const cancel = () => {
+      stopWaiting();
+      controller.abort();
+      signal?.removeEventListener('abort', cancel);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    return cancel;
+  }
+
+  /**
+   * Unload a model from memory, disposing it through its adapter
+   * @param modelName The name of the model to unload
+   * @returns A promise that resolves once the model's resources are released
+   */
+  public unloadModel(modelName: string): Promise<void> {
+    return this.releaseModel(modelName, 'unloaded');
+  }
+
+  /**
+   * Release a loaded model and notify listeners of the reason
+   * @param modelName The name of the model to release
+   * @param reason The lifecycle event describing why it was released
+   */
+  private releaseModel(
+    modelName: string,
+    reason: 'unloaded' | 'evicted' | 'expired',
+    force: boolean = false
+  ): Promise<void> {
+    const entry = this.modelCache.get(modelName);
+    if (!entry || entry.status !== ModelLoadingStatus.LOADED) return Promise.resolve();
+
+    // Never pull a model out from under a lease holder; finish when the last lease ends
+    if (entry.leaseCount > 0 && !force) {
+      if (!entry.pendingRelease) {
+        let resolve!: () => void;
+        const done = new Promise<void>(r => resolve = r);
+        entry.pendingRelease = { reason, done, resolve };
+      }
+      return entry.pendingRelease.done;
+    }
+
+    // Update cache first so the model is never handed out while being disposed
+    const model = entry.model;
+    const loadedConfig = entry.loadedConfig || entry.config;
+    entry.model = null;
+    entry.loadedConfig = null;
+    entry.variant = null;
+    entry.memoryBytes = 0;
+    entry.status = ModelLoadingStatus.IDLE;
+    this.emit(reason, modelName, ModelLoadingStatus.LOADED, entry.status);
+
+    return this.disposeModel(model, loadedConfig);
+  }
+
+  /**
+   * Emit a lifecycle event
+   */
+  private emit(
+    type: ModelLifecycleEventType,
+    modelName: string,
+    previousStatus: ModelLoadingStatus,
+    status: ModelLoadingStatus,
+    details: Pick<ModelLifecycleEvent, 'duration' | 'error' | 'progress' | 'attempt' | 'variant' | 'timing'> = {}
+  ): void {
+    const event: ModelLifecycleEvent = {
+      type,
+      modelName,
+      previousStatus,
+      status,
+      timestamp: this.scheduler.now(),
+      ...details
+    };
+    this.metrics.handleEvent(event);
+    this.events.emit(event);
+    if (previousStatus !== status) {
+      this.coordinator?.publish(modelName, status);
+    }
+  }
+
+  /**
+   * Pin a model so it is never evicted or expired automatically
+   * @param modelName The name of the model to pin
+   */
+  public pinModel(modelName: string): void {
+    const entry = this.modelCache.get(modelName);
+    if (entry) entry.pinned = true;
+  }
+
+  /**
+   * Allow a pinned model to be evicted again
+   * @param modelName The name of the model to unpin
+   */
+  public unpinModel(modelName: string): void {
+    const entry = this.modelCache.get(modelName);
+    if (entry) entry.pinned = false;
+  }
+
+  /**
+   * Get the memory footprint of loaded models
+   */
+  public getMemoryUsage(): ModelMemoryUsage {
+    const models: Record<string, number> = {};
+    let usedBytes = 0;
+    for (const [modelName, entry] of this.modelCache.entries()) {
+      if (entry.status === ModelLoadingStatus.LOADED) {
+        models[modelName] = entry.memoryBytes;
+        usedBytes += entry.memoryBytes;
+      }
+    }
+
+    const sharedUsedBytes = this.loadedAcrossScopes()
+      .reduce((sum, { entry }) => sum + entry.memoryBytes, 0);
+    return { usedBytes, sharedUsedBytes, budgetBytes: this.root.maxMemoryBytes, models };
+  }
+
+  /**
+   * Get a snapshot of every model's metrics, status and footprint
+   */
+  public getDiagnostics(): ModelDiagnostics {
+    const memory = this.getMemoryUsage();
+    const metrics = this.metrics.snapshot();
+    const models: ModelDiagnostics['models'] = {};
+
+    for (const [modelName, entry] of this.modelCache.entries()) {
+      models[modelName] = {
+        ...(metrics[modelName] || this.metrics.snapshot(modelName)),
+        status: entry.status,
+        memoryBytes: entry.memoryBytes,
+        variant: entry.variant,
+        backend: this.getModelInfo(modelName)!.backend
+      };
+    }
+
+    return {
+      timestamp: this.scheduler.now(),
+      memory: { usedBytes: memory.usedBytes, budgetBytes: memory.budgetBytes },
+      loads: { active: this.loadQueue.activeCount, queued: this.loadQueue.pendingCount },
+      models
+    };
+  }
+
+  /**
+   * Forget collected metrics
+   * @param modelName The model to reset, or omit for every model
+   */
+  public resetMetrics(modelName?: string): void {
+    this.metrics.reset(modelName);
+  }
+
+  /**
+   * Send diagnostics snapshots to an exporter periodically
+   * Exporters are also flushed when the page is hidden.
+   * @param exporter Receives each snapshot
+   * @param intervalMs How often to export (default: 60s)
+   * @returns A function that stops the exporter
+   */
+  public addMetricsExporter(exporter: MetricsExporter, intervalMs: number = 60 * 1000): () => void {
+    this.removeMetricsExporter(exporter);
+    this.metricsExporters.set(
+      exporter,
+      this.scheduler.setInterval(() => this.exportMetrics(exporter), intervalMs)
+    );
+    return () => this.removeMetricsExporter(exporter);
+  }
+
+  /**
+   * Stop a metrics exporter
+   */
+  public removeMetricsExporter(exporter: MetricsExporter): void {
+    const timer = this.metricsExporters.get(exporter);
+    if (timer !== undefined) {
+      this.scheduler.clearInterval(timer);
+      this.metricsExporters.delete(exporter);
+    }
+  }
+
+  /**
+   * Send a snapshot to every exporter now
+   */
+  public flushMetrics(): void {
+    for (const exporter of this.metricsExporters.keys()) {
+      this.exportMetrics(exporter);
+    }
+  }
+
+  /**
+   * Hand a snapshot to one exporter; its failures never reach the loader
+   */
+  private exportMetrics(exporter: MetricsExporter): void {
+    try {
+      Promise.resolve(exporter(this.getDiagnostics())).catch(error => {
+        console.error('Metrics exporter failed:', error);
+      });
+    } catch (error) {
+      console.error('Metrics exporter failed:', error);
+    }
+  }
+
+  /**
+   * Measure a loaded model through its adapter, falling back to the configured estimate
+   */
+  private measureModel(model: any, config: AIModelConfig): number {
+    const adapter = this.getAdapter(config.modelType);
+    try {
+      const measured = adapter?.estimateMemory?.(model, config);
+      if (measured) return measured;
+    } catch (error) {
+      console.warn(`Failed to measure memory for model '${config.name}':`, error);
+    }
+    return config.estimatedBytes || 0;
+  }
+
+  /**
+   * Ensures there's enough space in the cache for a new model
+   * by evicting unpinned models according to the eviction policy
+   * @param modelName The model that needs space (never evicted here)
+   * @param incomingBytes The footprint of the incoming model
+   */
+  private async ensureCacheSpace(modelName: string, incomingBytes: number): Promise<void> {
+    const now = this.scheduler.now();
+    const budgetBytes = this.root.maxMemoryBytes;
+    const loaded = this.loadedAcrossScopes()
+      .filter(({ loader, name }) => loader !== this || name !== modelName);
+
+    let count = loaded.filter(({ loader }) => loader === this).length;
+    let usedBytes = loaded.reduce((sum, { entry }) => sum + entry.memoryBytes, 0);
+    const fits = () =>
+      count + 1 <= this.maxCacheSize && usedBytes + incomingBytes <= budgetBytes;
+
+    if (fits()) return;
+
+    // Order candidates so the first one is the best to evict
+    const candidates = loaded
+      .filter(({ loader, name, entry }) =>
+        !entry.pinned && entry.leaseCount === 0 && !loader.isNeededByDependent(name))
+      .sort(({ entry: entryA }, { entry: entryB }) => {
+        if (this.evictionPolicy === 'size-weighted') {
+          const scoreA = (now - entryA.lastUsed + 1) * Math.max(entryA.memoryBytes, 1);
+          const scoreB = (now - entryB.lastUsed + 1) * Math.max(entryB.memoryBytes, 1);
+          return scoreB - scoreA;
+        }
+        return entryA.lastUsed - entryB.lastUsed;
+      });
+
+    // Unload models until the incoming model fits; only this loader's models
+    // count towards its maxCacheSize, while the memory budget is shared
+    while (!fits()) {
+      const index = count + 1 > this.maxCacheSize
+        ? candidates.findIndex(({ loader }) => loader === this)
+        : 0;
+      if (index === -1 || candidates.length === 0) break;
+
+      const [{ loader, name, entry }] = candidates.splice(index, 1);
+      if (loader === this) count--;
+      usedBytes -= entry.memoryBytes;
+      await loader.releaseModel(name, 'evicted');
+    }
+
+    if (!fits()) {
+      console.warn(
+        `Model '${modelName}' does not fit in the cache budget and no more models can be evicted ` +
+        `(${count + 1} of ${this.maxCacheSize} models, ${usedBytes + incomingBytes} of ${budgetBytes} bytes).`
+      );
+    }
+  }
+
+  /**
+   * Loaded models of every loader sharing this loader's memory budget
+   */
+  private loadedAcrossScopes(): Array<{ loader: AIModelLoader; name: string; entry: ModelCacheEntry }> {
+    const loaded: Array<{ loader: AIModelLoader; name: string; entry: ModelCacheEntry }> = [];
+    for (const loader of [this.root, ...this.root.scopes.values()]) {
+      for (const [name, entry] of loader.modelCache.entries()) {
+        if (entry.status === ModelLoadingStatus.LOADED) loaded.push({ loader, name, entry });
+      }
+    }
+    return loaded;
+  }
+
+  /**
+   * Clean up expired models based on TTL
+   * Sweeping a loader also sweeps its scopes, each by its own cacheTtl.
+   */
+  public cleanupExpiredModels(): void {
+    this.unloadIdleModels(this.cacheTtl, 'expired');
+    if (this.root === this) {
+      for (const scope of this.scopes.values()) scope.cleanupExpiredModels();
+    }
+  }
+
+  /**
+   * Unload every unpinned, unleased model idle for longer than a threshold
+   * @param idleMs Minimum idle time in milliseconds
+   * @param reason The lifecycle event to report
+   */
+  private unloadIdleModels(idleMs: number, reason: 'expired' | 'evicted'): void {
+    const now = this.scheduler.now();
+    for (const [modelName, entry] of this.modelCache.entries()) {
+      if (
+        entry.status === ModelLoadingStatus.LOADED &&
+        !entry.pinned &&
+        entry.leaseCount === 0 &&
+        now - entry.lastUsed >= idleMs &&
+        !this.isNeededByDependent(modelName)
+      ) {
+        this.releaseModel(modelName, reason);
+      }
+    }
+  }
+
+  /**
+   * Dispose all models and clean up resources
+   */
+  public dispose(): void {
+    // Disposing a loader disposes its scopes; a disposed scope leaves its parent
+    for (const scope of this.scopes.values()) scope.dispose();
+    this.scopes.clear();
+    if (this.root !== this && this.scopeName !== null) {
+      this.root.scopes.delete(this.scopeName);
+    }
+
+    const disposed = new Error('The model loader was disposed.');
+    for (const [modelName, entry] of this.modelCache.entries()) {
+      // In-flight loads reject with ModelLoadCancelledError and dispose what they load
+      entry.abortController?.abort(new ModelLoadCancelledError(modelName, disposed));
+      if (entry.leaseCount > 0 && this.development) {
+        console.warn(`Disposing model '${modelName}' with ${entry.leaseCount} outstanding lease(s).`);
+      }
+      this.releaseModel(modelName, 'unloaded', true);
+      for (const retired of entry.retired) {
+        this.disposeModel(retired.model, retired.config);
+      }
+      entry.retired = [];
+      entry.pendingRelease?.resolve();
+      entry.batcher?.clear(disposed);
+    }
+    this.loadQueue.clear(disposed);
+    this.modelCache.clear();
+    this.events.clear();
+
+    // Stop background work started by initialize()
+    if (this.sweepTimer !== null) {
+      this.scheduler.clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.lifecycleUnsubscribe?.();
+    this.lifecycleUnsubscribe = null;
+    this.coordinator?.close();
+    this.coordinator = null;
+    for (const timer of this.metricsExporters.values()) {
+      this.scheduler.clearInterval(timer);
+    }
+    this.metricsExporters.clear();
+    this.initOptions = {};
+    this.isInitialized = false;
+  }
+}
+
+/**
+ * Check whether this is a development build
+ * Bundlers replace process.env.NODE_ENV at build time, so this also works in
+ * browsers without a process shim; without a bundler or shim it is false.
+ */
+function isDevelopmentBuild(): boolean {
+  try {
+    return process.env.NODE_ENV !== 'production';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Resolve after a delay, or reject as soon as the signal aborts
+ */
+function abortableDelay(ms: number, signal: AbortSignal, scheduler: ModelScheduler): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      scheduler.clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = scheduler.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 // Export a singleton instance for convenient use
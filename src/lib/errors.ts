@@ -0,0 +1,316 @@
+/**
+ * Model Loader Errors
+ * Error types surfaced by the AIModelLoader
+ */
+
+import type { FetchFunction } from './progressTracker';
+
+/**
+ * Stable error codes, safe to branch on and to report
+ */
+export type ModelErrorCode =
+  | 'NETWORK'              // The request failed or returned an error status
+  | 'CORS'                 // A cross-origin request was blocked (or failed without a response)
+  | 'NOT_FOUND'            // The server answered 404
+  | 'CORRUPT_FORMAT'       // The downloaded files are not a valid model
+  | 'INCOMPATIBLE_VERSION' // The model uses layers / ops / opsets the runtime does not support
+  | 'BACKEND_INIT'         // No backend or execution provider could be initialized
+  | 'OUT_OF_MEMORY'        // Allocating the model's memory failed
+  | 'CANCELLED'
+  | 'TIMEOUT'
+  | 'UNREGISTERED'         // The model was never registered
+  | 'INTEGRITY'
+  | 'INVALID_INPUT'
+  | 'DEPENDENCY'
+  | 'UNKNOWN';
+
+/**
+ * Context attached to a model error
+ */
+export interface ModelErrorOptions {
+  modelName?: string;
+  url?: string;    // The file being loaded, when known
+  cause?: unknown; // The underlying error
+}
+
+/**
+ * Base class of every error raised by the loader
+ */
+export class ModelLoaderError extends Error {
+  public readonly modelName?: string;
+  public readonly url?: string;
+  public readonly cause?: unknown;
+
+  constructor(public readonly code: ModelErrorCode, message: string, options: ModelErrorOptions = {}) {
+    super(message);
+    this.name = 'ModelLoaderError';
+    this.modelName = options.modelName;
+    this.url = options.url;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Thrown when a request fails or the server answers with an error status
+ */
+export class ModelNetworkError extends ModelLoaderError {
+  public readonly status?: number; // HTTP status, when the server answered
+
+  constructor(
+    message: string,
+    options: ModelErrorOptions & { status?: number } = {},
+    code: ModelErrorCode = 'NETWORK'
+  ) {
+    super(code, message, options);
+    this.name = 'ModelNetworkError';
+    this.status = options.status;
+  }
+}
+
+/**
+ * Thrown when a cross-origin request fails without a response
+ * Browsers hide the reason, so this also covers a server that is down.
+ */
+export class ModelCorsError extends ModelNetworkError {
+  constructor(modelName: string, url: string, cause?: unknown) {
+    super(
+      `Request for ${url} of model '${modelName}' failed; it may be blocked by CORS. ` +
+      `Check that the server sends Access-Control-Allow-Origin.`,
+      { modelName, url, cause },
+      'CORS'
+    );
+    this.name = 'ModelCorsError';
+  }
+}
+
+/**
+ * Thrown when a model file does not exist (HTTP 404)
+ */
+export class ModelNotFoundError extends ModelNetworkError {
+  constructor(modelName: string, url: string) {
+    super(`Model file ${url} of model '${modelName}' was not found (404).`, { modelName, url, status: 404 }, 'NOT_FOUND');
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+/**
+ * Thrown when downloaded files are not a valid model
+ */
+export class ModelFormatError extends ModelLoaderError {
+  constructor(modelName: string, url: string | undefined, cause?: unknown) {
+    super(
+      'CORRUPT_FORMAT',
+      `Invalid model format or corrupt model file${url ? ` at ${url}` : ''} for model '${modelName}'` +
+      `${cause instanceof Error ? `: ${cause.message}` : '.'}`,
+      { modelName, url, cause }
+    );
+    this.name = 'ModelFormatError';
+  }
+}
+
+/**
+ * Thrown when a model cannot be built by this runtime version
+ */
+export class ModelIncompatibleError extends ModelLoaderError {
+  constructor(modelName: string, url: string | undefined, cause?: unknown) {
+    super(
+      'INCOMPATIBLE_VERSION',
+      `Model '${modelName}' is incompatible with the current runtime version` +
+      `${cause instanceof Error ? `: ${cause.message}` : '.'}`,
+      { modelName, url, cause }
+    );
+    this.name = 'ModelIncompatibleError';
+  }
+}
+
+/**
+ * Thrown when no backend / execution provider can be initialized
+ */
+export class ModelBackendError extends ModelLoaderError {
+  constructor(message: string, options: ModelErrorOptions = {}) {
+    super('BACKEND_INIT', message, options);
+    this.name = 'ModelBackendError';
+  }
+}
+
+/**
+ * Thrown when the model's memory cannot be allocated
+ */
+export class ModelOutOfMemoryError extends ModelLoaderError {
+  constructor(modelName: string, cause?: unknown) {
+    super('OUT_OF_MEMORY', `Not enough memory to load model '${modelName}'.`, { modelName, cause });
+    this.name = 'ModelOutOfMemoryError';
+  }
+}
+
+/**
+ * Thrown when a model is used without being registered
+ */
+export class ModelNotRegisteredError extends ModelLoaderError {
+  constructor(modelName: string) {
+    super('UNREGISTERED', `Model '${modelName}' is not registered.`, { modelName });
+    this.name = 'ModelNotRegisteredError';
+  }
+}
+
+/**
+ * Thrown when a model load is aborted through an AbortSignal
+ * The model's entry returns to IDLE and can be loaded again.
+ */
+export class ModelLoadCancelledError extends ModelLoaderError {
+  constructor(public readonly modelName: string, public readonly reason?: unknown) {
+    super('CANCELLED', `Loading model '${modelName}' was cancelled.`, { modelName });
+    this.name = 'ModelLoadCancelledError';
+  }
+}
+
+/**
+ * Thrown when a single load attempt exceeds its timeout
+ */
+export class ModelLoadTimeoutError extends ModelLoaderError {
+  constructor(public readonly modelName: string, public readonly timeoutMs: number) {
+    super('TIMEOUT', `Loading model '${modelName}' timed out after ${timeoutMs}ms.`, { modelName });
+    this.name = 'ModelLoadTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a downloaded file does not match its expected SHA-256 hash,
+ * or when an expected hash matches no downloaded file
+ */
+export class ModelIntegrityError extends ModelLoaderError {
+  constructor(
+    public readonly modelName: string,
+    public readonly url: string,
+    public readonly expected: string,
+    public readonly actual: string | null // Null when no downloaded file matched the URL
+  ) {
+    super(
+      'INTEGRITY',
+      actual === null
+        ? `Integrity hash for '${url}' of model '${modelName}' was never checked: no downloaded file has this URL.`
+        : `Integrity check failed for '${url}' of model '${modelName}': expected sha256 ${expected}, got ${actual}.`,
+      { modelName, url }
+    );
+    this.name = 'ModelIntegrityError';
+  }
+}
+
+/**
+ * Thrown when run() receives inputs that do not match the model's declared inputs
+ */
+export class ModelInputError extends ModelLoaderError {
+  constructor(public readonly modelName: string, message: string) {
+    super('INVALID_INPUT', `Invalid input for model '${modelName}': ${message}`, { modelName });
+    this.name = 'ModelInputError';
+  }
+}
+
+/**
+ * Thrown when model dependencies are missing, circular or fail to load
+ */
+export class ModelDependencyError extends ModelLoaderError {
+  constructor(public readonly modelName: string, message: string, cause?: unknown) {
+    super('DEPENDENCY', message, { modelName, cause });
+    this.name = 'ModelDependencyError';
+  }
+}
+
+/**
+ * Wrap a load failure in a ModelLoaderError, keeping errors that already are one
+ * @param error The error thrown while loading
+ * @param modelName The model being loaded
+ * @param url The model URL
+ */
+export function toModelLoaderError(error: unknown, modelName: string, url?: string): ModelLoaderError {
+  if (error instanceof ModelLoaderError) return error;
+
+  // ArrayBuffer allocations fail with a RangeError
+  if (error instanceof RangeError) return new ModelOutOfMemoryError(modelName, error);
+
+  return new ModelLoaderError(
+    'UNKNOWN',
+    `Failed to load model '${modelName}': ${error instanceof Error ? error.message : String(error)}`,
+    { modelName, url, cause: error }
+  );
+}
+
+/**
+ * Create a fetch function that reports failed requests as typed errors:
+ * 404 as ModelNotFoundError, other error statuses and network failures as
+ * ModelNetworkError, and failed cross-origin requests as ModelCorsError
+ * @param modelName The model being downloaded, for error reporting
+ * @param baseFetch The fetch implementation to wrap (defaults to global fetch)
+ */
+export function createCheckedFetch(
+  modelName: string,
+  baseFetch: FetchFunction = (input, init) => fetch(input, init)
+): FetchFunction {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    let response: Response;
+    try {
+      response = await baseFetch(input, init);
+    } catch (error) {
+      // Aborts are turned into cancellations and timeouts by the loader
+      if (error instanceof ModelLoaderError || (error as any)?.name === 'AbortError') {
+        throw error;
+      }
+      if (isCrossOrigin(url) && !(typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        throw new ModelCorsError(modelName, url, error);
+      }
+      throw new ModelNetworkError(`Network error loading ${url} for model '${modelName}'.`, {
+        modelName,
+        url,
+        cause: error
+      });
+    }
+
+    if (response.status === 404) {
+      throw new ModelNotFoundError(modelName, url);
+    }
+    if (!response.ok) {
+      throw new ModelNetworkError(
+        `Request for ${url} of model '${modelName}' failed with status ${response.status}.`,
+        { modelName, url, status: response.status }
+      );
+    }
+    return response;
+  };
+}
+
+/**
+ * Check whether a URL points to another origin than the page
+ */
+function isCrossOrigin(url: string): boolean {
+  if (typeof location === 'undefined') return false;
+  try {
+    return new URL(url, location.href).origin !== location.origin;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Default retry classification: network failures, timeouts and
+ * server-side / throttling HTTP statuses are worth retrying.
+ * @param error The error thrown by a load attempt
+ */
+export function isRetryableLoadError(error: unknown): boolean {
+  if (error instanceof ModelLoaderError) {
+    if (error.code === 'TIMEOUT') return true;
+    if (error instanceof ModelNetworkError && error.code !== 'NOT_FOUND') {
+      // No status: the request never completed
+      return error.status === undefined || error.status >= 500 || error.status === 408 || error.status === 429;
+    }
+    return false;
+  }
+  if (!(error instanceof Error)) return false;
+
+  // Errors from custom loaders: fetch() rejects with a TypeError when the request never completes
+  if (error.name === 'TypeError' && /fetch|network/i.test(error.message)) return true;
+
+  return /status(?: code)? (5\d\d|408|429)\b/.test(error.message) ||
+    /network error/i.test(error.message);
+}
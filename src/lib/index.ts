@@ -7,9 +7,65 @@
 // Export the core model loader
 export * from './aiModelLoader';
 
+// Export error types
+export * from './errors';
+
+// Export lifecycle event types
+export * from './modelEvents';
+
+// Export metrics and diagnostics types
+export * from './modelMetrics';
+
+// Export runtime detection and local file loading
+export * from './runtime';
+
+// Export the scheduler abstraction
+export * from './scheduler';
+
+// Export page lifecycle signal sources
+export * from './pageLifecycle';
+
+// Export the prioritized load queue
+export * from './loadQueue';
+
+// Export preload strategies
+export * from './preloadStrategies';
+
+// Export download progress tracking
+export * from './progressTracker';
+
+// Export request customization helpers
+export * from './requestOptions';
+
+// Export the persistent model cache
+export * from './persistentModelCache';
+
+// Export cross-tab coordination
+export * from './tabCoordinator';
+
+// Export integrity checks and model manifests
+export * from './integrity';
+export * from './modelManifest';
+
+// Export the adapter interface
+export * from './modelAdapter';
+
+// Export inference input types and helpers
+export * from './modelInputs';
+
+// Export the micro-batching layer
+export * from './inferenceBatcher';
+
 // Export the TensorFlow.js adapter
 export * from './tfjsModelAdapter';
 
+// The ONNX Runtime Web adapter is published separately as ai-model-loader/onnx
+
+// Export the worker-backed loader and its worker host
+export * from './workerProtocol';
+export * from './workerModelLoader';
+export * from './modelWorkerHost';
+
 // Default export for convenience
 import { aiModelLoader } from './aiModelLoader';
 export default aiModelLoader; 
\ No newline at end of file
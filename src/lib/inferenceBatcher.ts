@@ -0,0 +1,286 @@
+/**
+ * Inference Batcher
+ * Coalesces concurrent run() calls on a model into batched inferences
+ * and splits the results back to each caller.
+ */
+
+import { ModelInputs, ModelRunOptions, NestedArray } from './modelInputs';
+import { ModelScheduler, TimerHandle, defaultScheduler } from './scheduler';
+
+/**
+ * Micro-batching options for a model
+ */
+export interface BatchingOptions {
+  maxBatchSize?: number;         // Rows per batched inference (default: 32)
+  windowMs?: number;             // How long to wait for more calls (default: 10ms)
+  maxConcurrentBatches?: number; // Batched inferences running at once (default: 1)
+}
+
+/**
+ * Number of inputs and outputs a model declares; null when unknown
+ */
+export interface ModelArity {
+  inputs: number | null;
+  outputs: number | null;
+}
+
+/**
+ * Inputs that can be batched: one nested array, or nested arrays by input name,
+ * with the batch as the first dimension
+ */
+type BatchableInputs = NestedArray[] | Record<string, NestedArray[]>;
+
+/**
+ * A call waiting to be batched
+ */
+interface PendingCall {
+  inputs: BatchableInputs;
+  size: number; // Rows contributed to the batch
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Calls sharing the same output selection
+ */
+interface BatchGroup {
+  options: ModelRunOptions;
+  outputs: number | null; // Outputs the model returns for this selection
+  calls: PendingCall[];
+  rows: number;
+  timer: TimerHandle | null;
+}
+
+/**
+ * Batches run() calls for a single model
+ */
+export class InferenceBatcher {
+  private groups: Map<string, BatchGroup> = new Map();
+  private ready: string[] = []; // Groups waiting for a free batch slot
+  private active: number = 0;
+  private readonly maxBatchSize: number;
+  private readonly windowMs: number;
+  private readonly maxConcurrentBatches: number;
+
+  /**
+   * Create a batcher
+   * @param execute Runs one (batched) inference
+   * @param options Batching options
+   * @param scheduler Timers used for the batching window
+   */
+  constructor(
+    private readonly execute: (inputs: ModelInputs, options: ModelRunOptions) => Promise<any>,
+    options: BatchingOptions = {},
+    private readonly scheduler: ModelScheduler = defaultScheduler
+  ) {
+    this.maxBatchSize = options.maxBatchSize || 32;
+    this.windowMs = options.windowMs ?? 10;
+    this.maxConcurrentBatches = options.maxConcurrentBatches || 1;
+  }
+
+  /**
+   * Check whether a call can join a batch
+   * Nested arrays are batched only for models that declare a single input;
+   * typed arrays, tensors, input lists and tensor outputs run unbatched.
+   * @param inputs The inputs passed to run()
+   * @param options The options passed to run()
+   * @param arity The model's declared inputs and outputs
+   */
+  public static canBatch(inputs: ModelInputs, options: ModelRunOptions, arity: ModelArity): boolean {
+    if (options.returnTensors) return false;
+    return batchSize(inputs, arity) !== null;
+  }
+
+  /**
+   * Queue a call for the next batch
+   * @param inputs Batchable inputs (see canBatch)
+   * @param options Run options; calls are only batched with identical output selections
+   * @param arity The model's declared inputs and outputs for this output selection
+   * @returns This call's slice of the batched outputs
+   */
+  public run(inputs: ModelInputs, options: ModelRunOptions, arity: ModelArity): Promise<any> {
+    const size = batchSize(inputs, arity);
+    if (size === null) {
+      return Promise.reject(new Error('These inputs cannot be batched.'));
+    }
+
+    const key = JSON.stringify(options.outputs ?? null);
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { options: { outputs: options.outputs }, outputs: arity.outputs, calls: [], rows: 0, timer: null };
+      this.groups.set(key, group);
+    }
+
+    return new Promise((resolve, reject) => {
+      group!.calls.push({ inputs: inputs as BatchableInputs, size, resolve, reject });
+      group!.rows += size;
+
+      if (group!.rows >= this.maxBatchSize) {
+        this.markReady(key);
+      } else if (group!.timer === null) {
+        group!.timer = this.scheduler.setTimeout(() => this.markReady(key), this.windowMs);
+      }
+    });
+  }
+
+  /**
+   * Reject every call that has not been sent yet
+   * @param reason The rejection reason
+   */
+  public clear(reason: unknown): void {
+    for (const group of this.groups.values()) {
+      if (group.timer !== null) this.scheduler.clearTimeout(group.timer);
+      for (const call of group.calls) call.reject(reason);
+    }
+    this.groups.clear();
+    this.ready = [];
+  }
+
+  /**
+   * Mark a group as ready to run and start batches while slots are free
+   */
+  private markReady(key: string): void {
+    const group = this.groups.get(key);
+    if (!group) return;
+
+    if (group.timer !== null) {
+      this.scheduler.clearTimeout(group.timer);
+      group.timer = null;
+    }
+    if (!this.ready.includes(key)) this.ready.push(key);
+    this.drain();
+  }
+
+  /**
+   * Start batches for ready groups while slots are free
+   */
+  private drain(): void {
+    while (this.active < this.maxConcurrentBatches && this.ready.length > 0) {
+      const key = this.ready[0];
+      const group = this.groups.get(key)!;
+
+      // Take calls until the batch is full; a single oversized call still runs
+      const calls: PendingCall[] = [];
+      let rows = 0;
+      while (group.calls.length > 0 && (calls.length === 0 || rows + group.calls[0].size <= this.maxBatchSize)) {
+        const call = group.calls.shift()!;
+        calls.push(call);
+        rows += call.size;
+      }
+      group.rows -= rows;
+
+      if (group.calls.length === 0) {
+        this.ready.shift();
+        this.groups.delete(key);
+      } else if (group.rows < this.maxBatchSize) {
+        // The rest waits for another window
+        this.ready.shift();
+        group.timer = this.scheduler.setTimeout(() => this.markReady(key), this.windowMs);
+      }
+
+      this.runBatch(calls, group);
+    }
+  }
+
+  /**
+   * Run one batched inference and hand each caller its rows
+   */
+  private runBatch(calls: PendingCall[], group: BatchGroup): void {
+    this.active++;
+
+    const total = calls.reduce((sum, call) => sum + call.size, 0);
+    const run = calls.length === 1
+      ? this.execute(calls[0].inputs, group.options)
+      : this.execute(concatInputs(calls.map(call => call.inputs)), group.options);
+
+    run
+      .then(outputs => {
+        let offset = 0;
+        for (const call of calls) {
+          call.resolve(calls.length === 1 ? outputs : sliceOutputs(outputs, offset, call.size, total, group.outputs));
+          offset += call.size;
+        }
+      })
+      .catch(error => {
+        for (const call of calls) call.reject(error);
+      })
+      .finally(() => {
+        this.active--;
+        this.drain();
+      });
+  }
+}
+
+/**
+ * Number of rows in batchable inputs, or null if the inputs cannot be batched
+ * An array is a single batched input only when the model declares one input;
+ * otherwise it may be a list of inputs, which looks the same.
+ */
+function batchSize(inputs: ModelInputs, arity: ModelArity): number | null {
+  if (Array.isArray(inputs)) {
+    if (arity.inputs !== 1) return null;
+    return inputs.length > 0 && inputs.every(row => isNested(row)) ? inputs.length : null;
+  }
+  if (inputs === null || typeof inputs !== 'object' || ArrayBuffer.isView(inputs)) {
+    return null;
+  }
+
+  const values = Object.values(inputs);
+  if (values.length === 0 || !values.every(value => Array.isArray(value) && value.every(row => isNested(row)))) {
+    return null;
+  }
+  const sizes = new Set(values.map(value => (value as NestedArray[]).length));
+  return sizes.size === 1 ? values[0].length : null;
+}
+
+/**
+ * Check whether a value is plain (possibly nested) data
+ */
+function isNested(value: unknown): boolean {
+  return typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string' ||
+    (Array.isArray(value) && value.every(isNested));
+}
+
+/**
+ * Join the inputs of several calls along the batch dimension
+ */
+function concatInputs(inputs: BatchableInputs[]): BatchableInputs {
+  if (Array.isArray(inputs[0])) {
+    return ([] as NestedArray[]).concat(...(inputs as NestedArray[][]));
+  }
+
+  const result: Record<string, NestedArray[]> = {};
+  for (const name of Object.keys(inputs[0])) {
+    result[name] = ([] as NestedArray[]).concat(...inputs.map(input => (input as Record<string, NestedArray[]>)[name]));
+  }
+  return result;
+}
+
+/**
+ * Extract one caller's rows from batched outputs
+ * Outputs are a single batched array, a list of them (multi-output models)
+ * or a map of them by output name. An array is a list of outputs when the
+ * model declares several, or, when the count is unknown, if every element
+ * holds a full batch.
+ */
+function sliceOutputs(outputs: any, offset: number, size: number, total: number, outputCount: number | null): any {
+  if (Array.isArray(outputs)) {
+    const isList = outputCount === null
+      ? outputs.every(output => Array.isArray(output) && output.length === total)
+      : outputCount > 1;
+    if (isList && outputs.every(output => Array.isArray(output) && output.length === total)) {
+      return outputs.map(output => output.slice(offset, offset + size));
+    }
+    if (!isList && outputs.length === total) {
+      return outputs.slice(offset, offset + size);
+    }
+  } else if (outputs && typeof outputs === 'object') {
+    const result: Record<string, any> = {};
+    for (const [name, output] of Object.entries(outputs)) {
+      result[name] = sliceOutputs(output, offset, size, total, 1);
+    }
+    return result;
+  }
+
+  throw new Error('Batched outputs do not have the batch as their first dimension.');
+}
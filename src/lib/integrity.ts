@@ -0,0 +1,114 @@
+/**
+ * Integrity Checks
+ * Fetch wrapper that verifies the SHA-256 hash of downloaded model files.
+ */
+
+import { ModelIntegrityError } from './errors';
+import { FetchFunction } from './progressTracker';
+import { defaultBaseUrl } from './runtime';
+
+/**
+ * Compute the SHA-256 hash of a buffer as lowercase hex
+ * @param data The bytes to hash
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('SHA-256 integrity checks require the Web Crypto API (a secure context).');
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Resolve a URL against the page location (the working directory in Node.js)
+ * so relative and absolute spellings of the same file compare equal
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    return new URL(url, defaultBaseUrl()).href;
+  } catch (error) {
+    // Not resolvable without a base
+    return url;
+  }
+}
+
+/**
+ * Drop the query and fragment of a normalized URL, e.g. TF Hub's ?tfjs-format=file
+ */
+function stripQuery(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
+
+/**
+ * Fetch function that verifies downloaded files against expected hashes
+ */
+export interface IntegrityFetch extends FetchFunction {
+  /**
+   * Throw a ModelIntegrityError if an expected hash matched no downloaded file
+   * Call once every model file has been downloaded.
+   */
+  assertAllChecked(): void;
+}
+
+/**
+ * Create a fetch function that verifies downloaded files against expected hashes
+ * URLs match their hash exactly once normalized, or else ignoring the query
+ * string. Files without an expected hash pass through untouched.
+ * @param modelName The model being downloaded, for error reporting
+ * @param integrity Expected sha256 (hex) keyed by file URL
+ * @param baseFetch The fetch implementation to wrap (defaults to global fetch)
+ */
+export function createIntegrityFetch(
+  modelName: string,
+  integrity: Record<string, string> | undefined,
+  baseFetch: FetchFunction = (input, init) => fetch(input, init)
+): IntegrityFetch {
+  const expectedByUrl = new Map<string, string>();
+  const urlsWithoutQuery = new Map<string, string>();
+  for (const [url, hash] of Object.entries(integrity || {})) {
+    const normalized = normalizeUrl(url);
+    expectedByUrl.set(normalized, hash.toLowerCase());
+    if (!urlsWithoutQuery.has(stripQuery(normalized))) {
+      urlsWithoutQuery.set(stripQuery(normalized), normalized);
+    }
+  }
+  const checked = new Set<string>();
+
+  const integrityFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const response = await baseFetch(input, init);
+    if (expectedByUrl.size === 0) {
+      return response;
+    }
+
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const normalized = normalizeUrl(url);
+    const key = expectedByUrl.has(normalized) ? normalized : urlsWithoutQuery.get(stripQuery(normalized));
+    if (!key || !response.ok) {
+      return response;
+    }
+
+    // The whole file is needed to hash it; hand back a response over the verified bytes
+    const expected = expectedByUrl.get(key)!;
+    const body = await response.arrayBuffer();
+    const actual = await sha256Hex(body);
+    if (actual !== expected) {
+      throw new ModelIntegrityError(modelName, url, expected, actual);
+    }
+    checked.add(key);
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+
+  return Object.assign(integrityFetch, {
+    assertAllChecked: () => {
+      for (const [url, expected] of expectedByUrl) {
+        if (!checked.has(url)) throw new ModelIntegrityError(modelName, url, expected, null);
+      }
+    }
+  });
+}
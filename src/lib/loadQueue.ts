@@ -0,0 +1,170 @@
+/**
+ * Load Queue
+ * Priority queue that bounds how many model loads run at once.
+ */
+
+/**
+ * Priority of a load; higher priority loads start first
+ * - 'high': explicit, user-triggered loads
+ * - 'normal': loads the app expects to need soon
+ * - 'low': background preloads
+ */
+export type LoadPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<LoadPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+};
+
+/**
+ * A load waiting for a free slot
+ */
+interface QueuedLoad {
+  key: string;
+  priority: LoadPriority;
+  sequence: number; // Keeps equal priorities first-in, first-out
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+/**
+ * Runs load tasks by priority with bounded concurrency
+ */
+export class LoadQueue {
+  private pending: QueuedLoad[] = [];
+  private active: number = 0;
+  private sequence: number = 0;
+
+  /**
+   * Create a new queue
+   * @param maxConcurrent Maximum number of tasks running at once
+   */
+  constructor(private readonly maxConcurrent: number = Infinity) {}
+
+  /**
+   * Number of running tasks
+   */
+  public get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  public get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Queue a task
+   * @param key Identifies the task for promote() and isQueued()
+   * @param priority The task's priority
+   * @param task Starts the work once a slot is free
+   * @param signal Removes the task from the queue if aborted before it starts
+   * @returns The task's result
+   */
+  public schedule<T>(
+    key: string,
+    priority: LoadPriority,
+    task: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => queued.cancel(signal!.reason);
+      const queued: QueuedLoad = {
+        key,
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+        cancel: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          this.remove(queued);
+          reject(reason);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.insert(queued);
+      this.drain();
+    });
+  }
+
+  /**
+   * Raise the priority of a queued task; never lowers it
+   * @param key The task key
+   * @param priority The new priority
+   */
+  public promote(key: string, priority: LoadPriority): void {
+    const queued = this.pending.find(item => item.key === key);
+    if (!queued || PRIORITY_RANK[priority] >= PRIORITY_RANK[queued.priority]) return;
+
+    this.remove(queued);
+    queued.priority = priority;
+    this.insert(queued);
+  }
+
+  /**
+   * Check whether a task is waiting for a slot
+   * @param key The task key
+   */
+  public isQueued(key: string): boolean {
+    return this.pending.some(item => item.key === key);
+  }
+
+  /**
+   * Reject every task that has not started yet
+   * @param reason The rejection reason
+   */
+  public clear(reason: unknown): void {
+    for (const queued of [...this.pending]) {
+      queued.cancel(reason);
+    }
+  }
+
+  /**
+   * Start queued tasks while slots are free
+   */
+  private drain(): void {
+    while (this.active < this.maxConcurrent && this.pending.length > 0) {
+      this.pending.shift()!.start();
+    }
+  }
+
+  /**
+   * Insert a task keeping the queue sorted by priority, then arrival
+   */
+  private insert(queued: QueuedLoad): void {
+    const index = this.pending.findIndex(item =>
+      PRIORITY_RANK[item.priority] > PRIORITY_RANK[queued.priority] ||
+      (item.priority === queued.priority && item.sequence > queued.sequence)
+    );
+    if (index === -1) {
+      this.pending.push(queued);
+    } else {
+      this.pending.splice(index, 0, queued);
+    }
+  }
+
+  /**
+   * Remove a task that has not started
+   */
+  private remove(queued: QueuedLoad): void {
+    const index = this.pending.indexOf(queued);
+    if (index !== -1) this.pending.splice(index, 1);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Model Adapter Interface
+ * Adapters teach the loader how to load, warm up, measure and dispose
+ * models of a particular modelType.
+ */
+
+import type { AIModelConfig, ModelLoadContext } from './aiModelLoader';
+import type { ModelInputs, ModelRunOptions } from './modelInputs';
+
+/**
+ * Adapter for a single modelType
+ */
+export interface ModelAdapter<TModel = any, TConfig extends AIModelConfig = AIModelConfig> {
+  modelType: string;
+
+  /**
+   * Check a configuration at registration time; throw to reject it
+   */
+  validate?(config: TConfig): void;
+
+  /**
+   * Load a model (used when the config has no loadModel function of its own)
+   */
+  load(config: TConfig, context: ModelLoadContext): Promise<TModel>;
+
+  /**
+   * Prepare a freshly loaded model, e.g. by running a dummy inference
+   */
+  warmup?(model: TModel, config: TConfig): Promise<void> | void;
+
+  /**
+   * Run inference: validate and convert the inputs, execute the model and
+   * return plain data (or tensors when options.returnTensors is set),
+   * disposing every intermediate tensor
+   */
+  run?(model: TModel, inputs: ModelInputs, config: TConfig, options: ModelRunOptions): Promise<any>;
+
+  /**
+   * Name the inputs and outputs of a loaded model, in order
+   */
+  tensorNames?(model: TModel, config: TConfig): { inputs: string[]; outputs: string[] };
+
+  /**
+   * Release the resources (GPU textures, WASM heap, ...) held by a model
+   */
+  dispose?(model: TModel, config: TConfig): Promise<void> | void;
+
+  /**
+   * Name the backend (or execution provider) a loaded model runs on
+   */
+  backend?(model: TModel, config: TConfig): string | null;
+
+  /**
+   * Estimate the memory footprint of a loaded model in bytes
+   */
+  estimateMemory?(model: TModel, config: TConfig): number;
+}
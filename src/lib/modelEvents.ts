@@ -0,0 +1,108 @@
+/**
+ * Model Lifecycle Events
+ * Typed notifications emitted by the AIModelLoader whenever a model
+ * cache entry changes state.
+ */
+
+import type { ModelLoadingStatus } from './aiModelLoader';
+import type { ModelLoadProgress } from './progressTracker';
+import type { ModelLoadTiming } from './modelMetrics';
+
+/**
+ * Lifecycle event types
+ */
+export type ModelLifecycleEventType =
+  | 'registered'
+  | 'loadStart'
+  | 'progress'
+  | 'retry'
+  | 'fallback'
+  | 'loaded'
+  | 'error'
+  | 'cancelled'
+  | 'unloaded'
+  | 'evicted'
+  | 'expired'
+  | 'updated'     // updateModel applied a new configuration (and swapped in the new version if loaded)
+  | 'rolledBack'; // updateModel failed; the current version stays in place
+
+/**
+ * Payload delivered to lifecycle listeners
+ */
+export interface ModelLifecycleEvent {
+  type: ModelLifecycleEventType;
+  modelName: string;
+  previousStatus: ModelLoadingStatus;
+  status: ModelLoadingStatus;
+  timestamp: number;
+  duration?: number; // Load duration in milliseconds (loaded / error / updated / rolledBack events)
+  error?: unknown;
+  progress?: ModelLoadProgress; // Download progress (progress events)
+  attempt?: number; // The attempt that failed (retry events)
+  variant?: string; // The variant loaded (loaded / updated events) or tried next (fallback events)
+  timing?: ModelLoadTiming; // Time spent fetching, parsing and warming up (loaded / updated events)
+}
+
+/**
+ * Lifecycle event listener
+ */
+export type ModelLifecycleListener = (event: ModelLifecycleEvent) => void;
+
+/**
+ * Minimal typed event emitter used by the loader
+ */
+export class ModelEventEmitter {
+  private listeners: Map<ModelLifecycleEventType | '*', Set<ModelLifecycleListener>> = new Map();
+
+  /**
+   * Subscribe to an event type, or '*' for every event
+   * @param type The event type to listen for
+   * @param listener The listener to invoke
+   * @returns A function that removes the listener
+   */
+  public on(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   * @param type The event type the listener was registered for
+   * @param listener The listener to remove
+   */
+  public off(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Deliver an event to its type-specific and wildcard listeners
+   * @param event The event to emit
+   */
+  public emit(event: ModelLifecycleEvent): void {
+    const targets = [
+      ...(this.listeners.get(event.type) || []),
+      ...(this.listeners.get('*') || [])
+    ];
+
+    for (const listener of targets) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A faulty listener must never break the loader itself
+        console.error(`Listener for '${event.type}' event failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  public clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Model Inputs
+ * Types and helpers shared by the adapters' run() implementations:
+ * normalizing plain / typed array inputs and validating their shapes.
+ */
+
+import { ModelInputError } from './errors';
+
+/**
+ * Typed arrays accepted as input data
+ */
+export type TypedArrayInput =
+  | Float32Array
+  | Float64Array
+  | Int32Array
+  | Int16Array
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Uint16Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Nested arrays of numbers, e.g. [[1, 2], [3, 4]]
+ */
+export type NestedArray = number | boolean | string | NestedArray[];
+
+/**
+ * A single input: nested arrays, a typed array (shaped from the declared
+ * input shape) or a runtime tensor (tf.Tensor / ort.Tensor)
+ */
+export type ModelInputValue = NestedArray[] | TypedArrayInput | { shape?: number[]; dims?: readonly number[] };
+
+/**
+ * Inputs for run(): one input, a list in input order, or a map by input name
+ */
+export type ModelInputs = ModelInputValue | ModelInputValue[] | Record<string, ModelInputValue>;
+
+/**
+ * Options for run()
+ */
+export interface ModelRunOptions {
+  outputs?: string | string[]; // Outputs to compute, by name (default: the model's outputs)
+  returnTensors?: boolean;     // Return runtime tensors the caller must dispose (default: plain arrays)
+}
+
+/**
+ * Declared shape of one input; null or negative dimensions match any size
+ */
+export interface InputShapeSpec {
+  name: string;
+  shape: Array<number | null> | null; // null when the model does not declare a shape
+}
+
+/**
+ * Check whether a value is a typed array
+ */
+export function isTypedArray(value: unknown): value is TypedArrayInput {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+/**
+ * Check whether a value is already a runtime tensor
+ */
+export function isRuntimeTensor(value: unknown): boolean {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && !isTypedArray(value) &&
+    (Array.isArray((value as any).shape) || Array.isArray((value as any).dims));
+}
+
+/**
+ * Split run() inputs into one value per declared input
+ * A plain array is a list of inputs only when the model has several inputs,
+ * otherwise it is the data of the single input.
+ * @param modelName The model being run
+ * @param inputs The inputs passed to run()
+ * @param specs The model's declared inputs
+ */
+export function normalizeInputs(
+  modelName: string,
+  inputs: ModelInputs,
+  specs: InputShapeSpec[]
+): Array<{ spec: InputShapeSpec; value: ModelInputValue }> {
+  let values: ModelInputValue[];
+
+  if (isTypedArray(inputs) || isRuntimeTensor(inputs)) {
+    values = [inputs as ModelInputValue];
+  } else if (Array.isArray(inputs)) {
+    values = specs.length > 1 ? inputs as ModelInputValue[] : [inputs as ModelInputValue];
+  } else {
+    const named = inputs as Record<string, ModelInputValue>;
+    const unknown = Object.keys(named).filter(name => !specs.some(spec => spec.name === name));
+    if (unknown.length > 0) {
+      throw new ModelInputError(
+        modelName,
+        `Unknown input(s) ${unknown.join(', ')}. Expected: ${specs.map(spec => spec.name).join(', ')}.`
+      );
+    }
+    values = specs.map(spec => named[spec.name]);
+  }
+
+  if (specs.length > 0 && (values.length !== specs.length || values.some(value => value === undefined))) {
+    throw new ModelInputError(
+      modelName,
+      `Expected ${specs.length} input(s) (${specs.map(spec => spec.name).join(', ')}), got ${values.length}.`
+    );
+  }
+
+  return values.map((value, i) => ({ spec: specs[i] || { name: `input_${i}`, shape: null }, value }));
+}
+
+/**
+ * Flatten nested arrays into data and shape
+ * @param modelName The model being run
+ * @param inputName The input being converted
+ * @param value Nested arrays
+ */
+export function flattenNested(
+  modelName: string,
+  inputName: string,
+  value: NestedArray[]
+): { data: Array<number | boolean | string>; shape: number[] } {
+  const shape: number[] = [];
+  for (let level: any = value; Array.isArray(level); level = level[0]) {
+    shape.push(level.length);
+  }
+
+  const data: Array<number | boolean | string> = [];
+  const walk = (item: any, depth: number) => {
+    if (depth === shape.length) {
+      if (Array.isArray(item)) {
+        throw new ModelInputError(modelName, `Input '${inputName}' is a ragged array.`);
+      }
+      data.push(item);
+      return;
+    }
+    if (!Array.isArray(item) || item.length !== shape[depth]) {
+      throw new ModelInputError(modelName, `Input '${inputName}' is a ragged array.`);
+    }
+    for (const child of item) walk(child, depth + 1);
+  };
+  walk(value, 0);
+
+  return { data, shape };
+}
+
+/**
+ * Work out the shape of a typed array input from the declared shape
+ * At most one dimension (usually the batch) may be unknown.
+ * @param modelName The model being run
+ * @param spec The declared input
+ * @param length The number of elements provided
+ */
+export function shapeForTypedArray(modelName: string, spec: InputShapeSpec, length: number): number[] {
+  if (!spec.shape) {
+    return [length];
+  }
+
+  const unknown = spec.shape.filter(dim => dim === null || dim < 0).length;
+  const known = spec.shape.reduce<number>((product, dim) => (dim === null || dim < 0 ? product : product * dim), 1);
+  if (unknown > 1 || known === 0 || length % known !== 0) {
+    throw new ModelInputError(
+      modelName,
+      `Cannot shape ${length} values for input '${spec.name}' with declared shape ${formatShape(spec.shape)}; ` +
+      `pass nested arrays or a tensor instead.`
+    );
+  }
+
+  return spec.shape.map(dim => (dim === null || dim < 0 ? length / known : dim));
+}
+
+/**
+ * Validate an input's shape against its declared shape
+ * @param modelName The model being run
+ * @param spec The declared input
+ * @param shape The shape of the provided input
+ * @throws ModelInputError if the rank or a fixed dimension differs
+ */
+export function validateShape(modelName: string, spec: InputShapeSpec, shape: readonly number[]): void {
+  if (!spec.shape) return;
+
+  const matches = spec.shape.length === shape.length &&
+    spec.shape.every((dim, i) => dim === null || dim < 0 || dim === shape[i]);
+  if (!matches) {
+    throw new ModelInputError(
+      modelName,
+      `Input '${spec.name}' has shape ${formatShape(shape)} but the model expects ${formatShape(spec.shape)}.`
+    );
+  }
+}
+
+/**
+ * Rebuild nested arrays from flat data
+ * @param data Flat data
+ * @param shape The shape to rebuild
+ */
+export function unflatten(data: ArrayLike<any>, shape: readonly number[]): any {
+  if (shape.length === 0) return data[0];
+
+  const build = (offset: number, depth: number): any[] => {
+    const size = shape.slice(depth + 1).reduce((a, b) => a * b, 1);
+    const result = [];
+    for (let i = 0; i < shape[depth]; i++) {
+      result.push(depth === shape.length - 1 ? data[offset + i] : build(offset + i * size, depth + 1));
+    }
+    return result;
+  };
+  return build(0, 0);
+}
+
+/**
+ * Format a shape for error messages, e.g. [?, 224, 224, 3]
+ */
+function formatShape(shape: ReadonlyArray<number | null>): string {
+  return `[${shape.map(dim => (dim === null || dim < 0 ? '?' : dim)).join(', ')}]`;
+}
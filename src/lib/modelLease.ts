@@ -0,0 +1,99 @@
+/**
+ * Model Leases
+ * Reference-counted handles that keep a model loaded while in use.
+ */
+
+import { ModelScheduler, TimerHandle, defaultScheduler } from './scheduler';
+
+/**
+ * Hooks the loader provides to each lease
+ */
+export interface ModelLeaseHooks {
+  touch: () => void;   // Mark the model as used
+  release: () => void; // Called exactly once when the lease is released
+}
+
+/**
+ * A handle on a loaded model
+ * The model is never evicted, expired or disposed while a lease is held.
+ */
+export class ModelLease<T = any> {
+  private released: boolean = false;
+  private leakTimer: TimerHandle | null = null;
+
+  /**
+   * Create a new lease (use AIModelLoader.acquireModel instead)
+   * @param modelName The name of the leased model
+   * @param model The leased model instance
+   * @param hooks Loader callbacks
+   * @param leakWarningMs Warn if the lease is held longer than this (0 disables)
+   * @param scheduler Timer functions used for the leak warning
+   */
+  constructor(
+    public readonly modelName: string,
+    private readonly leasedModel: T,
+    private readonly hooks: ModelLeaseHooks,
+    leakWarningMs: number = 0,
+    private readonly scheduler: ModelScheduler = defaultScheduler
+  ) {
+    if (leakWarningMs > 0) {
+      // Capture where the lease was acquired to make leaks easy to track down
+      const acquiredAt = new Error('Lease acquired here').stack;
+      this.leakTimer = scheduler.setTimeout(() => {
+        console.warn(
+          `Lease on model '${modelName}' has been held for more than ${leakWarningMs}ms. ` +
+          `Did you forget to call release()?`,
+          acquiredAt
+        );
+      }, leakWarningMs);
+    }
+  }
+
+  /**
+   * The leased model
+   */
+  public get model(): T {
+    if (this.released) {
+      throw new Error(`Lease on model '${this.modelName}' has already been released.`);
+    }
+    return this.leasedModel;
+  }
+
+  /**
+   * Whether the lease is still held
+   */
+  public get isActive(): boolean {
+    return !this.released;
+  }
+
+  /**
+   * Mark the model as used without running anything
+   */
+  public touch(): void {
+    if (!this.released) this.hooks.touch();
+  }
+
+  /**
+   * Run a function against the model, updating its usage timestamp
+   * @param fn The function to run, e.g. an inference
+   */
+  public run<R>(fn: (model: T) => R): R {
+    const model = this.model;
+    this.hooks.touch();
+    return fn(model);
+  }
+
+  /**
+   * Release the lease; safe to call more than once
+   */
+  public release(): void {
+    if (this.released) return;
+
+    this.released = true;
+    if (this.leakTimer !== null) {
+      this.scheduler.clearTimeout(this.leakTimer);
+      this.leakTimer = null;
+    }
+    this.hooks.release();
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Model Manifests
+ * JSON documents describing models (version, URLs, file hashes, sizes,
+ * signature and warmup shape) so models can be updated without a code deploy.
+ */
+
+import { AIModelConfig, AIModelLoader, ModelType, TensorSpec, aiModelLoader } from './aiModelLoader';
+import { normalizeUrl } from './integrity';
+import { FetchFunction } from './progressTracker';
+
+/**
+ * A file belonging to a model
+ */
+export interface ModelManifestFile {
+  path: string;    // Relative to the model URL, e.g. 'group1-shard1of2.bin'
+  sha256?: string; // Expected hash (hex), verified after download
+  bytes?: number;  // File size
+}
+
+/**
+ * A model described by a manifest
+ */
+export interface ModelManifestEntry {
+  name: string;
+  version: string;
+  modelType: ModelType;
+  format?: string;             // Adapter format, e.g. 'layers' or 'graph' for tfjs
+  url: string | string[];      // Model file / model.json; extra URLs are mirrors tried in order
+  files?: ModelManifestFile[]; // Files to verify (include the model file itself)
+  bytes?: number;              // Expected memory footprint (default: sum of file sizes)
+  inputs?: TensorSpec[];
+  outputs?: TensorSpec[];
+  warmupShape?: number[] | Record<string, number[]>; // One shape, or shapes by input name
+  dependencies?: string[];     // Models that must load first, by name
+  options?: Record<string, any>; // Extra adapter-specific configuration
+}
+
+/**
+ * A manifest document
+ */
+export interface ModelManifest {
+  models: ModelManifestEntry[];
+}
+
+/**
+ * Options for loading a manifest
+ */
+export interface ModelManifestOptions {
+  loader?: AIModelLoader;    // Loader to register with (default: the aiModelLoader singleton)
+  baseUrl?: string;          // Resolves relative model URLs (default: the manifest URL)
+  fetchFunc?: FetchFunction; // Custom fetch for the manifest request
+  signal?: AbortSignal;
+}
+
+/**
+ * Validate a parsed manifest document
+ * @param data The parsed JSON
+ * @throws If required fields are missing or malformed
+ */
+export function parseModelManifest(data: unknown): ModelManifest {
+  const manifest = data as ModelManifest;
+  if (!manifest || !Array.isArray(manifest.models)) {
+    throw new Error('Invalid model manifest: expected a "models" array.');
+  }
+
+  manifest.models.forEach((entry, index) => {
+    const where = `models[${index}]`;
+    if (!entry || typeof entry.name !== 'string' || !entry.name) {
+      throw new Error(`Invalid model manifest: ${where} requires a name.`);
+    }
+    if (typeof entry.version !== 'string' || !entry.version) {
+      throw new Error(`Invalid model manifest: model '${entry.name}' requires a version.`);
+    }
+    if (typeof entry.modelType !== 'string') {
+      throw new Error(`Invalid model manifest: model '${entry.name}' requires a modelType.`);
+    }
+    const urls = Array.isArray(entry.url) ? entry.url : [entry.url];
+    if (urls.length === 0 || urls.some(url => typeof url !== 'string' || !url)) {
+      throw new Error(`Invalid model manifest: model '${entry.name}' requires a url.`);
+    }
+    for (const file of entry.files || []) {
+      if (typeof file.path !== 'string' || (file.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(file.sha256))) {
+        throw new Error(`Invalid model manifest: model '${entry.name}' has an invalid file entry.`);
+      }
+    }
+  });
+
+  return manifest;
+}
+
+/**
+ * Resolve a path relative to a base URL
+ */
+function resolveUrl(path: string, base?: string): string {
+  if (!base) return path;
+  try {
+    return new URL(path, normalizeUrl(base)).href;
+  } catch (error) {
+    // Relative base outside the browser: join paths by hand
+    return /^[a-z][a-z0-9+.-]*:/i.test(path) || path.startsWith('/')
+      ? path
+      : base.slice(0, base.lastIndexOf('/') + 1) + path;
+  }
+}
+
+/**
+ * Convert a manifest entry into a model configuration
+ * @param entry The manifest entry
+ * @param baseUrl Base for relative model URLs, usually the manifest URL
+ */
+export function manifestEntryToConfig(entry: ModelManifestEntry, baseUrl?: string): AIModelConfig {
+  const [modelUrl, ...mirrors] = (Array.isArray(entry.url) ? entry.url : [entry.url])
+    .map(url => resolveUrl(url, baseUrl));
+
+  // Mirrors serve the same files; each copy is checked against the same hashes
+  const integrityAt = (url: string): Record<string, string> | undefined => {
+    const integrity: Record<string, string> = {};
+    for (const file of entry.files || []) {
+      if (file.sha256) integrity[resolveUrl(file.path, url)] = file.sha256.toLowerCase();
+    }
+    return Object.keys(integrity).length > 0 ? integrity : undefined;
+  };
+  const integrity = integrityAt(modelUrl);
+
+  const fileBytes = (entry.files || []).reduce((sum, file) => sum + (file.bytes || 0), 0);
+  // Adapter-specific fields (modelFormat, inputShape, ...) are set alongside the common ones
+  const config: AIModelConfig & Record<string, any> = {
+    ...entry.options,
+    name: entry.name,
+    version: entry.version,
+    modelType: entry.modelType,
+    modelUrl,
+    estimatedBytes: entry.bytes ?? (fileBytes || undefined),
+    signature: { inputs: entry.inputs, outputs: entry.outputs },
+    variants: mirrors.map((url, i) => ({ id: `mirror-${i + 1}`, modelUrl: url, integrity: integrityAt(url) })),
+    dependencies: entry.dependencies
+  };
+
+  if (integrity) config.integrity = integrity;
+  if (entry.format) config.modelFormat = entry.format;
+  if (entry.warmupShape) {
+    config.warmup = true;
+    if (Array.isArray(entry.warmupShape)) {
+      config.inputShape = entry.warmupShape;
+    } else {
+      config.inputShapes = entry.warmupShape;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Register every model of a manifest
+ * Models already registered under another version are updated in the
+ * background (see AIModelLoader.updateModel); a failed update keeps the
+ * current version.
+ * @param manifest The manifest
+ * @param options Registration options
+ * @returns The configurations that were registered or updated
+ */
+export function registerModelManifest(
+  manifest: ModelManifest,
+  options: Pick<ModelManifestOptions, 'loader' | 'baseUrl'> = {}
+): AIModelConfig[] {
+  const loader = options.loader || aiModelLoader;
+  const registered: AIModelConfig[] = [];
+  const updated: AIModelConfig[] = [];
+
+  for (const entry of parseModelManifest(manifest).models) {
+    const existing = loader.getModelInfo(entry.name);
+    if (existing) {
+      if (existing.version !== entry.version) {
+        updated.push(manifestEntryToConfig(entry, options.baseUrl));
+      }
+      continue;
+    }
+
+    registered.push(manifestEntryToConfig(entry, options.baseUrl));
+  }
+
+  // Entries may list a model before its dependencies
+  loader.registerModels(registered);
+
+  // Updated models may depend on the newly registered ones
+  for (const { name, ...config } of updated) {
+    loader.updateModel(name, config).catch(error => {
+      console.warn(`Model '${name}' was not updated to manifest version ${config.version}:`, error);
+    });
+  }
+  return [...registered, ...updated];
+}
+
+/**
+ * Fetch a manifest and register its models
+ * @param manifestUrl URL of the manifest JSON
+ * @param options Loading options
+ * @returns The configurations that were registered or updated
+ */
+export async function loadModelManifest(
+  manifestUrl: string,
+  options: ModelManifestOptions = {}
+): Promise<AIModelConfig[]> {
+  const fetchFunc = options.fetchFunc || ((input, init) => fetch(input, init));
+  const response = await fetchFunc(manifestUrl, { signal: options.signal });
+  if (!response.ok) {
+    throw new Error(`Request for model manifest ${manifestUrl} failed with status ${response.status}.`);
+  }
+
+  return registerModelManifest(await response.json(), {
+    loader: options.loader,
+    baseUrl: options.baseUrl ?? manifestUrl
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * Model Metrics
+ * Per-model counters, load timings and latency histograms collected from
+ * the loader's lifecycle events and inference calls.
+ */
+
+import type { ModelLifecycleEvent } from './modelEvents';
+
+/**
+ * Upper bounds (ms) of the default latency histogram buckets
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Time spent in each phase of a successful load
+ * Loads that do not report when their files were fetched (e.g. custom
+ * loadModel functions) count entirely as parse time.
+ */
+export interface ModelLoadTiming {
+  totalMs: number;   // From loadStart to loaded, including retries and fallbacks
+  fetchMs: number;   // Downloading (or reading cached) model files
+  parseMs: number;   // Building the model from its files
+  warmupMs: number;  // The adapter's warmup
+  fromCache: boolean | null; // Whether the files came from the persistent cache (null if unknown)
+}
+
+/**
+ * Latency histogram; counts[i] holds samples <= bucketsMs[i], the last
+ * count holds samples above every bucket
+ */
+export interface LatencyHistogram {
+  bucketsMs: number[];
+  counts: number[];
+  count: number;
+  sumMs: number;
+  minMs: number | null;
+  maxMs: number | null;
+}
+
+/**
+ * Metrics of a single model
+ */
+export interface ModelMetrics {
+  loads: number;
+  loadErrors: number;
+  cancellations: number;
+  retries: number;
+  fallbacks: number;
+  cacheHits: number;   // Loads served from the persistent cache
+  cacheMisses: number; // Loads that downloaded their files
+  evictions: number;
+  expirations: number;
+  unloads: number;
+  updates: number;   // Configurations applied by updateModel
+  rollbacks: number; // Updates whose new version failed to load
+  inferences: number;
+  inferenceErrors: number;
+  lastLoad: ModelLoadTiming | null;
+  loadDuration: LatencyHistogram;
+  inferenceLatency: LatencyHistogram;
+}
+
+/**
+ * Snapshot returned by AIModelLoader.getDiagnostics
+ */
+export interface ModelDiagnostics {
+  timestamp: number;
+  memory: { usedBytes: number; budgetBytes: number };
+  loads: { active: number; queued: number };
+  models: Record<string, ModelMetrics & {
+    status: string;
+    memoryBytes: number;
+    variant: string | null;
+    backend: string | null;
+  }>;
+}
+
+/**
+ * Receives diagnostics snapshots, e.g. to forward them to a telemetry service
+ */
+export type MetricsExporter = (diagnostics: ModelDiagnostics) => void | Promise<void>;
+
+/**
+ * Collects metrics for every model of a loader
+ */
+export class MetricsCollector {
+  private models: Map<string, ModelMetrics> = new Map();
+
+  /**
+   * Create a collector
+   * @param bucketsMs Upper bounds of the latency histogram buckets
+   */
+  constructor(private readonly bucketsMs: number[] = DEFAULT_LATENCY_BUCKETS_MS) {}
+
+  /**
+   * Update counters from a lifecycle event
+   * @param event The event emitted by the loader
+   */
+  public handleEvent(event: ModelLifecycleEvent): void {
+    const metrics = this.get(event.modelName);
+
+    switch (event.type) {
+      case 'loaded':
+        metrics.loads++;
+        if (event.timing) {
+          metrics.lastLoad = event.timing;
+          if (event.timing.fromCache === true) metrics.cacheHits++;
+          if (event.timing.fromCache === false) metrics.cacheMisses++;
+        }
+        if (event.duration !== undefined) observe(metrics.loadDuration, event.duration);
+        break;
+      case 'error':
+        metrics.loadErrors++;
+        break;
+      case 'cancelled':
+        metrics.cancellations++;
+        break;
+      case 'retry':
+        metrics.retries++;
+        break;
+      case 'fallback':
+        metrics.fallbacks++;
+        break;
+      case 'evicted':
+        metrics.evictions++;
+        break;
+      case 'expired':
+        metrics.expirations++;
+        break;
+      case 'unloaded':
+        metrics.unloads++;
+        break;
+      case 'updated':
+        metrics.updates++;
+        if (event.timing) metrics.lastLoad = event.timing;
+        break;
+      case 'rolledBack':
+        metrics.rollbacks++;
+        break;
+    }
+  }
+
+  /**
+   * Record one inference
+   * @param modelName The model that ran
+   * @param durationMs How long the inference took
+   * @param failed Whether it threw
+   */
+  public recordInference(modelName: string, durationMs: number, failed: boolean = false): void {
+    const metrics = this.get(modelName);
+    if (failed) {
+      metrics.inferenceErrors++;
+    } else {
+      metrics.inferences++;
+      observe(metrics.inferenceLatency, durationMs);
+    }
+  }
+
+  /**
+   * Get a copy of the metrics collected so far
+   * @param modelName The model, or omit for every model
+   */
+  public snapshot(): Record<string, ModelMetrics>;
+  public snapshot(modelName: string): ModelMetrics;
+  public snapshot(modelName?: string): ModelMetrics | Record<string, ModelMetrics> {
+    if (modelName !== undefined) {
+      return cloneMetrics(this.get(modelName));
+    }
+
+    const result: Record<string, ModelMetrics> = {};
+    for (const [name, metrics] of this.models.entries()) {
+      result[name] = cloneMetrics(metrics);
+    }
+    return result;
+  }
+
+  /**
+   * Forget the metrics of one model, or of every model
+   * @param modelName The model to reset, or omit for every model
+   */
+  public reset(modelName?: string): void {
+    if (modelName === undefined) {
+      this.models.clear();
+    } else {
+      this.models.delete(modelName);
+    }
+  }
+
+  /**
+   * Get (or create) a model's metrics
+   */
+  private get(modelName: string): ModelMetrics {
+    let metrics = this.models.get(modelName);
+    if (!metrics) {
+      metrics = {
+        loads: 0,
+        loadErrors: 0,
+        cancellations: 0,
+        retries: 0,
+        fallbacks: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        evictions: 0,
+        expirations: 0,
+        unloads: 0,
+        updates: 0,
+        rollbacks: 0,
+        inferences: 0,
+        inferenceErrors: 0,
+        lastLoad: null,
+        loadDuration: createHistogram(this.bucketsMs),
+        inferenceLatency: createHistogram(this.bucketsMs)
+      };
+      this.models.set(modelName, metrics);
+    }
+    return metrics;
+  }
+}
+
+/**
+ * Create an empty histogram
+ */
+function createHistogram(bucketsMs: number[]): LatencyHistogram {
+  return {
+    bucketsMs: [...bucketsMs],
+    counts: new Array(bucketsMs.length + 1).fill(0),
+    count: 0,
+    sumMs: 0,
+    minMs: null,
+    maxMs: null
+  };
+}
+
+/**
+ * Add a sample to a histogram
+ */
+function observe(histogram: LatencyHistogram, valueMs: number): void {
+  const bucket = histogram.bucketsMs.findIndex(bound => valueMs <= bound);
+  histogram.counts[bucket === -1 ? histogram.bucketsMs.length : bucket]++;
+  histogram.count++;
+  histogram.sumMs += valueMs;
+  histogram.minMs = histogram.minMs === null ? valueMs : Math.min(histogram.minMs, valueMs);
+  histogram.maxMs = histogram.maxMs === null ? valueMs : Math.max(histogram.maxMs, valueMs);
+}
+
+/**
+ * Deep-copy metrics so snapshots don't change as new samples arrive
+ */
+function cloneMetrics(metrics: ModelMetrics): ModelMetrics {
+  return {
+    ...metrics,
+    lastLoad: metrics.lastLoad && { ...metrics.lastLoad },
+    loadDuration: { ...metrics.loadDuration, counts: [...metrics.loadDuration.counts] },
+    inferenceLatency: { ...metrics.inferenceLatency, counts: [...metrics.inferenceLatency.counts] }
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Model Worker Host
+ * Runs inside a dedicated worker and serves requests from a
+ * WorkerModelLoader on the main thread.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { AIModelLoader, AIModelConfig, ModelLoadOptions, aiModelLoader } from './aiModelLoader';
+import {
+  ModelWorkerPort,
+  WorkerModelInputs,
+  WorkerRequest,
+  WorkerTensor,
+  isWorkerTensor,
+  mapTensors,
+  serializeError
+} from './workerProtocol';
+
+/**
+ * Options for startModelWorker
+ */
+export interface ModelWorkerHostOptions {
+  loader?: AIModelLoader; // Loader that owns the models (default: the aiModelLoader singleton)
+  port?: ModelWorkerPort; // Where requests arrive (default: the worker's global scope)
+}
+
+/**
+ * Tensors produced by either runtime
+ */
+type NativeTensor =
+  | tf.Tensor
+  | { dims: readonly number[]; type: string; data: any; getData?: () => Promise<any>; dispose?: () => void };
+
+/**
+ * Runs models of a runtime other than TensorFlow.js inside the worker host
+ * Importing ai-model-loader/onnx registers the one for ONNX Runtime sessions.
+ */
+export interface WorkerModelRuntime {
+  matches(model: any): boolean; // Whether this runtime runs the loaded model
+  tensorFactory(model: any): Promise<(input: WorkerTensor) => any>; // Creates input tensors for the model
+  run(model: any, inputs: any, outputNames?: string | string[]): Promise<any>; // predict() and execute()
+}
+
+/**
+ * Runtimes registered with registerWorkerRuntime
+ */
+const workerRuntimes: WorkerModelRuntime[] = [];
+
+/**
+ * Let every worker host run the models of another runtime
+ * @param runtime The runtime to register
+ */
+export function registerWorkerRuntime(runtime: WorkerModelRuntime): void {
+  if (!workerRuntimes.includes(runtime)) workerRuntimes.push(runtime);
+}
+
+/**
+ * Check whether a value is a TensorFlow.js or ONNX Runtime tensor
+ */
+function isNativeTensor(value: any): value is NativeTensor {
+  return value instanceof tf.Tensor ||
+    (value != null && Array.isArray(value.dims) && typeof value.type === 'string' && 'data' in value);
+}
+
+/**
+ * Convert a native output tensor into a WorkerTensor, collecting its buffer for transfer
+ */
+async function fromNativeTensor(tensor: NativeTensor, transfer: Transferable[]): Promise<WorkerTensor> {
+  if (tensor instanceof tf.Tensor) {
+    // Copy: on the CPU backend dataSync() returns the tensor's own storage,
+    // which may back a model weight and must not be detached
+    const values = tensor.dataSync();
+    const data = ArrayBuffer.isView(values) ? values.slice() : [...values] as string[];
+    if (ArrayBuffer.isView(data)) transfer.push(data.buffer);
+    return { data, shape: [...tensor.shape], dtype: tensor.dtype };
+  }
+
+  // ONNX Runtime outputs may stay on the GPU; getData() downloads them
+  const data = tensor.getData ? await tensor.getData() : tensor.data;
+  if (ArrayBuffer.isView(data)) transfer.push(data.buffer);
+  return { data, shape: [...tensor.dims], dtype: tensor.type };
+}
+
+/**
+ * Convert every tensor in a single / list / map structure of outputs
+ */
+async function fromNativeOutputs(outputs: any, transfer: Transferable[]): Promise<any> {
+  if (isNativeTensor(outputs)) return fromNativeTensor(outputs, transfer);
+  if (Array.isArray(outputs)) return Promise.all(outputs.map(output => fromNativeOutputs(output, transfer)));
+  if (outputs && typeof outputs === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, output] of Object.entries(outputs)) {
+      result[key] = await fromNativeOutputs(output, transfer);
+    }
+    return result;
+  }
+  return outputs;
+}
+
+/**
+ * Run a model against marshalled inputs and marshal its outputs back
+ * The model is leased for the duration so it cannot be unloaded mid-inference.
+ */
+async function runModel(
+  loader: AIModelLoader,
+  modelName: string,
+  inputs: WorkerModelInputs,
+  run: (model: any, inputs: any, runtime: WorkerModelRuntime | null) => any
+): Promise<{ result: any; transfer: Transferable[] }> {
+  const lease = await loader.acquireModel(modelName);
+  const created: NativeTensor[] = [];
+
+  try {
+    const model = lease.model;
+    const runtime = workerRuntimes.find(candidate => candidate.matches(model)) || null;
+    const createTensor = runtime
+      ? await runtime.tensorFactory(model)
+      : (input: WorkerTensor) => tf.tensor(input.data as any, input.shape, input.dtype as tf.DataType);
+
+    const nativeInputs = mapTensors(inputs, isWorkerTensor, (input: WorkerTensor) => {
+      const tensor = createTensor(input);
+      created.push(tensor);
+      return tensor;
+    });
+
+    lease.touch();
+    const outputs = await run(model, nativeInputs, runtime);
+
+    const transfer: Transferable[] = [];
+    const result = await fromNativeOutputs(outputs, transfer);
+
+    mapTensors(outputs, isNativeTensor, (tensor: NativeTensor) => {
+      if (!created.includes(tensor)) tensor.dispose?.();
+    });
+    return { result, transfer };
+  } finally {
+    for (const tensor of created) tensor.dispose?.();
+    lease.release();
+  }
+}
+
+/**
+ * Serve WorkerModelLoader requests from inside a dedicated worker
+ * Custom loadModel functions cannot cross the worker boundary; register
+ * such models directly on the host's loader inside the worker script.
+ * @param options Host options
+ * @returns A function that stops serving requests
+ */
+export function startModelWorker(options: ModelWorkerHostOptions = {}): () => void {
+  const loader = options.loader || aiModelLoader;
+  const port = options.port || (self as unknown as ModelWorkerPort);
+  const loads: Map<number, AbortController> = new Map();
+
+  // Forward lifecycle events so the main thread can mirror model status
+  const unsubscribe = loader.on('*', event => {
+    port.postMessage({
+      type: 'event',
+      event: { ...event, error: event.error === undefined ? undefined : serializeError(event.error) }
+    });
+  });
+
+  const handle = async (
+    id: number,
+    method: WorkerRequest['method'],
+    args: any[]
+  ): Promise<{ result?: any; transfer?: Transferable[] }> => {
+    switch (method) {
+      case 'register':
+        loader.registerModel(args[0] as AIModelConfig);
+        return {};
+
+      case 'load': {
+        const [modelName, config, loadOptions = {}] =
+          args as [string, AIModelConfig | undefined, Omit<ModelLoadOptions, 'onProgress' | 'signal'>];
+        const controller = new AbortController();
+        loads.set(id, controller);
+        try {
+          await loader.loadModel(modelName, config, {
+            ...loadOptions,
+            signal: controller.signal,
+            onProgress: (progress, details) => port.postMessage({ type: 'progress', id, progress, details })
+          });
+          return { result: loader.getModelInfo(modelName) };
+        } finally {
+          loads.delete(id);
+        }
+      }
+
+      case 'cancel':
+        loads.get(args[0])?.abort();
+        return {};
+
+      case 'predict':
+        return runModel(loader, args[0], args[1], (model, inputs, runtime) => {
+          if (runtime) return runtime.run(model, inputs);
+          if (typeof model.predict === 'function') return model.predict(inputs);
+          throw new Error(
+            `Model '${args[0]}' does not support predict(). ` +
+            `ONNX models need ai-model-loader/onnx imported in the worker script.`
+          );
+        });
+
+      case 'execute': {
+        const outputNames: string | string[] | undefined = args[2];
+        return runModel(loader, args[0], args[1], (model, inputs, runtime) => {
+          if (runtime) return runtime.run(model, inputs, outputNames);
+          if (typeof model.executeAsync === 'function') return model.executeAsync(inputs, outputNames);
+          if (typeof model.execute === 'function') return model.execute(inputs, outputNames);
+          throw new Error(`Model '${args[0]}' does not support execute().`);
+        });
+      }
+
+      case 'unload':
+        await loader.unloadModel(args[0]);
+        return {};
+
+      case 'info':
+        return { result: loader.getModelInfo(args[0]) };
+
+      case 'dispose':
+        loader.dispose();
+        return {};
+
+      default:
+        throw new Error(`Unknown worker method '${method}'.`);
+    }
+  };
+
+  const onMessage = async (event: MessageEvent) => {
+    const { id, method, args } = event.data as WorkerRequest;
+    try {
+      const { result, transfer = [] } = await handle(id, method, args);
+      port.postMessage({ type: 'result', id, result }, transfer);
+    } catch (error) {
+      port.postMessage({ type: 'error', id, error: serializeError(error) });
+    }
+  };
+
+  port.addEventListener('message', onMessage);
+
+  return () => {
+    port.removeEventListener('message', onMessage);
+    unsubscribe();
+    for (const controller of loads.values()) controller.abort();
+    loads.clear();
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * AI Model Loader: ONNX Runtime Web support
+ * Published as ai-model-loader/onnx so the main entry point never loads
+ * onnxruntime-web, an optional peer dependency. Importing it registers the
+ * 'onnx' adapter, and lets worker hosts run ONNX models.
+ */
+
+// Export the ONNX Runtime Web adapter
+export * from './onnxModelAdapter';
+
+// Export the worker host runtime for ONNX sessions
+export * from './onnxWorkerRuntime';
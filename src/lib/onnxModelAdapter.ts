@@ -0,0 +1,471 @@
+/**
+ * ONNX Runtime Web Model Adapter
+ * Helper utilities for loading and managing ONNX models
+ */
+
+import type * as ort from 'onnxruntime-web';
+import {
+  AIModelConfig,
+  AIModelLoader,
+  ModelLoadContext,
+  ModelLoadOptions,
+  ModelProgressCallback,
+  aiModelLoader
+} from './aiModelLoader';
+import {
+  ModelBackendError,
+  ModelFormatError,
+  ModelOutOfMemoryError,
+  createCheckedFetch
+} from './errors';
+import { createIntegrityFetch } from './integrity';
+import { ModelAdapter } from './modelAdapter';
+import {
+  InputShapeSpec,
+  flattenNested,
+  isTypedArray,
+  normalizeInputs,
+  shapeForTypedArray,
+  unflatten,
+  validateShape
+} from './modelInputs';
+import { createProgressFetch } from './progressTracker';
+import { createFileFetch, isLocalModelUrl, resolveLocalModelUrl } from './runtime';
+
+/**
+ * ONNX Runtime Web execution providers
+ * 'webgl' is not part of the default onnxruntime-web build; sessions on it are
+ * created with the onnxruntime-web/webgl build instead.
+ */
+export type OnnxExecutionProvider = 'webgpu' | 'webgl' | 'wasm';
+
+/**
+ * ONNX model specific configuration
+ */
+export interface OnnxModelConfig extends AIModelConfig {
+  modelType: 'onnx';
+  modelUrl: string;
+  executionProviders?: OnnxExecutionProvider[]; // In order of preference
+  inputShapes?: Record<string, number[]>;       // Declared input shapes, used for warmup
+  inputTypes?: Record<string, ort.Tensor.Type>; // Input dtypes (default: float32)
+  warmup?: boolean;
+  sessionOptions?: Omit<ort.InferenceSession.SessionOptions, 'executionProviders'>;
+}
+
+/**
+ * Default execution provider preference
+ */
+const DEFAULT_EXECUTION_PROVIDERS: OnnxExecutionProvider[] = ['webgpu', 'webgl', 'wasm'];
+
+/**
+ * Execution provider each session was created with
+ */
+const sessionProviders: WeakMap<ort.InferenceSession, OnnxExecutionProvider> = new WeakMap();
+
+/**
+ * ONNX Runtime build each session was created with; its tensors must come from the same build
+ */
+const sessionRuntimes: WeakMap<ort.InferenceSession, typeof ort> = new WeakMap();
+
+/**
+ * Size of the model file each session was created from
+ */
+const sessionByteSizes: WeakMap<ort.InferenceSession, number> = new WeakMap();
+
+/**
+ * ONNX Runtime Web model adapter
+ * Registered as the default adapter for the 'onnx' modelType
+ */
+export const onnxAdapter: ModelAdapter<ort.InferenceSession, OnnxModelConfig> = {
+  modelType: 'onnx',
+
+  validate(config) {
+    if (!config.modelUrl) {
+      throw new Error(`ONNX model '${config.name}' requires a modelUrl.`);
+    }
+  },
+
+  async load(config, context) {
+    let runtime: typeof ort;
+    try {
+      runtime = await import('onnxruntime-web');
+    } catch (error) {
+      throw new ModelBackendError(
+        'Could not load ONNX Runtime Web. Is the onnxruntime-web package installed?',
+        { modelName: config.name, cause: error }
+      );
+    }
+    console.log(`Loading ONNX model from URL: ${config.modelUrl}`);
+
+    const modelBytes = await fetchModelBytes(config, context);
+    const session = await createSession(runtime, modelBytes, config);
+    sessionByteSizes.set(session, modelBytes.byteLength);
+    return session;
+  },
+
+  async warmup(session, config) {
+    if (!config.warmup || !config.inputShapes) return;
+
+    await warmupSession(await onnxRuntimeFor(session), session, config);
+  },
+
+  async run(session, inputs, config, options) {
+    const runtime = await onnxRuntimeFor(session);
+    const specs = inputSpecs(session, config);
+    const created: ort.Tensor[] = [];
+    const feeds: Record<string, ort.Tensor> = {};
+    let outputs: ort.InferenceSession.ReturnType;
+
+    try {
+      for (const { spec, value } of normalizeInputs(config.name, inputs, specs)) {
+        let tensor: ort.Tensor;
+        if (value instanceof runtime.Tensor) {
+          tensor = value;
+        } else {
+          const type = config.inputTypes?.[spec.name] || 'float32';
+          if (isTypedArray(value)) {
+            tensor = new runtime.Tensor(type, value as any, shapeForTypedArray(config.name, spec, value.length));
+          } else {
+            const { data, shape } = flattenNested(config.name, spec.name, value as any[]);
+            tensor = new runtime.Tensor(type, typedData(type, data), shape);
+          }
+          created.push(tensor);
+        }
+        validateShape(config.name, spec, tensor.dims);
+        feeds[spec.name] = tensor;
+      }
+
+      const fetches = typeof options.outputs === 'string' ? [options.outputs] : options.outputs;
+      outputs = fetches ? await session.run(feeds, fetches) : await session.run(feeds);
+    } finally {
+      for (const tensor of created) tensor.dispose();
+    }
+
+    if (options.returnTensors) {
+      return outputs;
+    }
+    try {
+      const result: Record<string, any> = {};
+      for (const [name, tensor] of Object.entries(outputs)) {
+        result[name] = unflatten(await tensor.getData(), tensor.dims);
+      }
+      return result;
+    } finally {
+      for (const tensor of Object.values(outputs)) tensor.dispose();
+    }
+  },
+
+  tensorNames(session) {
+    return { inputs: [...session.inputNames], outputs: [...session.outputNames] };
+  },
+
+  async dispose(session) {
+    // Release WASM / GPU resources held by the session
+    await session.release();
+  },
+
+  backend(session) {
+    return sessionProviders.get(session) || null;
+  },
+
+  estimateMemory(session) {
+    // Initializers dominate the footprint, so the file size is a good estimate
+    return sessionByteSizes.get(session) || 0;
+  }
+};
+
+AIModelLoader.registerDefaultAdapter(onnxAdapter);
+
+/**
+ * ONNX helpers bound to one loader
+ */
+export interface OnnxModelBinding {
+  readonly loader: AIModelLoader;
+  registerModel(config: Omit<OnnxModelConfig, 'loadModel'>): void;
+  loadModel(
+    modelName: string,
+    progressCallback?: ModelProgressCallback,
+    options?: Omit<ModelLoadOptions, 'onProgress'>
+  ): Promise<ort.InferenceSession>;
+  unloadModel(modelName: string): Promise<void>;
+  getExecutionProvider(modelName: string): OnnxExecutionProvider | null;
+}
+
+/**
+ * Create ONNX helpers for a loader, e.g. a scope or a loader created in a test
+ * @param loader The loader to register and load models with
+ */
+export function createOnnxBinding(loader: AIModelLoader): OnnxModelBinding {
+  return {
+    loader,
+
+    registerModel(config) {
+      loader.registerModel({
+        ...config,
+        modelType: 'onnx'
+      });
+    },
+
+    loadModel(modelName, progressCallback, options = {}) {
+      return loader.loadModel<ort.InferenceSession>(modelName, undefined, {
+        ...options,
+        onProgress: progressCallback
+      });
+    },
+
+    async unloadModel(modelName) {
+      try {
+        await loader.unloadModel(modelName);
+      } catch (error) {
+        console.error(`Error unloading model '${modelName}':`, error);
+      }
+    },
+
+    getExecutionProvider(modelName) {
+      const session = loader.getModel<ort.InferenceSession>(modelName);
+      return session ? sessionProviders.get(session) || null : null;
+    }
+  };
+}
+
+// Helpers for the aiModelLoader singleton, behind the free functions below
+const defaultBinding = createOnnxBinding(aiModelLoader);
+
+/**
+ * Register an ONNX model with the loader
+ * @param config ONNX model configuration
+ */
+export function registerOnnxModel(config: Omit<OnnxModelConfig, 'loadModel'>): void {
+  defaultBinding.registerModel(config);
+}
+
+/**
+ * Download the model file, consulting the persistent cache first
+ * @param config ONNX model configuration
+ * @param context The load context provided by the loader
+ */
+async function fetchModelBytes(
+  config: Omit<OnnxModelConfig, 'loadModel'>,
+  context: ModelLoadContext
+): Promise<Uint8Array> {
+  const cache = context.persistentCache;
+  if (cache) {
+    const cached = await cache.get<Uint8Array>(config.name, config.version);
+    if (cached) {
+      console.log(`Loading model '${config.name}' from persistent cache`);
+      context.markFetched(true);
+      return cached;
+    }
+  }
+
+  const fetchFunc = createIntegrityFetch(
+    config.name,
+    config.integrity,
+    createCheckedFetch(config.name, createProgressFetch(context.onProgress, createFileFetch(context.fetchFunc)))
+  );
+  const modelUrl = isLocalModelUrl(config.modelUrl)
+    ? await resolveLocalModelUrl(config.modelUrl, 'model.onnx')
+    : config.modelUrl;
+  const response = await fetchFunc(modelUrl, { ...context.requestInit, signal: context.signal });
+
+  const modelBytes = new Uint8Array(await response.arrayBuffer());
+  fetchFunc.assertAllChecked();
+  if (cache) {
+    await cache.put(config.name, config.version, modelBytes, modelBytes.byteLength);
+  }
+  context.markFetched(false);
+  return modelBytes;
+}
+
+/**
+ * Create an inference session, trying each execution provider in turn
+ * @param runtime The ONNX Runtime Web module
+ * @param modelBytes The model file contents
+ * @param config ONNX model configuration
+ */
+async function createSession(
+  runtime: typeof ort,
+  modelBytes: Uint8Array,
+  config: Omit<OnnxModelConfig, 'loadModel'>
+): Promise<ort.InferenceSession> {
+  const providers = config.executionProviders || DEFAULT_EXECUTION_PROVIDERS;
+  let lastError: unknown = null;
+  let backendUnavailable = true; // No provider got as far as reading the model
+
+  for (const provider of providers) {
+    let providerRuntime: typeof ort;
+    try {
+      providerRuntime = provider === 'webgl' ? await import('onnxruntime-web/webgl') : runtime;
+    } catch (error) {
+      console.warn(`Could not load the ONNX Runtime Web build for execution provider '${provider}'`, error);
+      lastError = error;
+      continue;
+    }
+
+    try {
+      const session = await providerRuntime.InferenceSession.create(modelBytes, {
+        ...config.sessionOptions,
+        executionProviders: [provider]
+      });
+      sessionProviders.set(session, provider);
+      sessionRuntimes.set(session, providerRuntime);
+      console.log(`Using ONNX execution provider '${provider}' for model '${config.name}'`);
+      return session;
+    } catch (error) {
+      console.warn(`ONNX execution provider '${provider}' failed for model '${config.name}'`, error);
+      lastError = error;
+      if (!isBackendInitError(error)) backendUnavailable = false;
+    }
+  }
+
+  // Each failure is logged above
+  if (backendUnavailable) {
+    throw new ModelBackendError(
+      `No ONNX execution provider could be initialized for model '${config.name}' (tried ${providers.join(', ')}).`,
+      { modelName: config.name, cause: lastError }
+    );
+  }
+  throw lastError instanceof RangeError
+    ? new ModelOutOfMemoryError(config.name, lastError)
+    : new ModelFormatError(config.name, config.modelUrl, lastError);
+}
+
+/**
+ * Get the ONNX Runtime Web build a session was created with
+ * Tensors fed to the session must be created with this build's Tensor class.
+ * @param session The inference session
+ */
+export async function onnxRuntimeFor(session: ort.InferenceSession): Promise<typeof ort> {
+  return sessionRuntimes.get(session) || import('onnxruntime-web');
+}
+
+/**
+ * Check whether ONNX Runtime failed to initialize the requested execution provider
+ */
+function isBackendInitError(error: unknown): boolean {
+  return error instanceof Error && /no available backend/i.test(error.message);
+}
+
+/**
+ * Run a dummy inference with zero-filled inputs of the declared shapes
+ * @param runtime The ONNX Runtime Web module
+ * @param session The session to warm up
+ * @param config ONNX model configuration
+ */
+async function warmupSession(
+  runtime: typeof ort,
+  session: ort.InferenceSession,
+  config: Omit<OnnxModelConfig, 'loadModel'>
+): Promise<void> {
+  const feeds: Record<string, ort.Tensor> = {};
+  for (const [inputName, shape] of Object.entries(config.inputShapes || {})) {
+    const type = config.inputTypes?.[inputName] || 'float32';
+    const size = shape.reduce((a, b) => a * b, 1);
+    feeds[inputName] = new runtime.Tensor(type, zeroData(type, size), shape);
+  }
+
+  const outputs = await session.run(feeds);
+
+  // Release GPU-backed tensors created during warmup
+  for (const tensor of [...Object.values(feeds), ...Object.values(outputs)]) {
+    tensor.dispose();
+  }
+}
+
+/**
+ * Declared inputs of a session: the config's signature, else the session's
+ * input metadata, else the warmup inputShapes with a free batch dimension
+ */
+function inputSpecs(
+  session: ort.InferenceSession,
+  config: Omit<OnnxModelConfig, 'loadModel'>
+): InputShapeSpec[] {
+  const declared = config.signature?.inputs;
+
+  return session.inputNames.map((name, i) => {
+    const metadata = session.inputMetadata?.[i];
+    const metadataShape = metadata?.isTensor && metadata.shape.length > 0
+      ? metadata.shape.map(dim => (typeof dim === 'number' ? dim : null))
+      : null;
+    const warmupShape = config.inputShapes?.[name];
+
+    return {
+      name,
+      shape: declared?.find(spec => spec.name === name)?.shape ??
+        declared?.[i]?.shape ??
+        metadataShape ??
+        (warmupShape ? [null, ...warmupShape.slice(1)] : null)
+    };
+  });
+}
+
+/**
+ * Convert flat values into data for a tensor type
+ */
+function typedData(type: ort.Tensor.Type, values: Array<number | boolean | string>): ort.Tensor.DataType {
+  const data = zeroData(type, values.length) as any;
+  values.forEach((value, i) => {
+    data[i] = type === 'int64' || type === 'uint64' ? BigInt(value as number) : type === 'string' ? value : Number(value);
+  });
+  return data;
+}
+
+/**
+ * Allocate zero-filled data for a tensor type
+ */
+function zeroData(type: ort.Tensor.Type, size: number): ort.Tensor.DataType {
+  switch (type) {
+    case 'int64':
+      return new BigInt64Array(size);
+    case 'uint64':
+      return new BigUint64Array(size);
+    case 'int32':
+      return new Int32Array(size);
+    case 'int16':
+      return new Int16Array(size);
+    case 'uint16':
+    case 'float16':
+      return new Uint16Array(size);
+    case 'int8':
+      return new Int8Array(size);
+    case 'uint8':
+    case 'bool':
+      return new Uint8Array(size);
+    case 'float64':
+      return new Float64Array(size);
+    case 'string':
+      return new Array<string>(size).fill('');
+    default:
+      return new Float32Array(size);
+  }
+}
+
+/**
+ * Load an ONNX model with progress tracking
+ * @param modelName The name of the registered model
+ * @param progressCallback Optional callback receiving download progress
+ * @param options Optional abort signal and timeout
+ */
+export async function loadOnnxModel(
+  modelName: string,
+  progressCallback?: ModelProgressCallback,
+  options: Omit<ModelLoadOptions, 'onProgress'> = {}
+): Promise<ort.InferenceSession> {
+  return defaultBinding.loadModel(modelName, progressCallback, options);
+}
+
+/**
+ * Get the execution provider a loaded ONNX model is running on
+ * @param modelName The name of the model
+ */
+export function getOnnxExecutionProvider(modelName: string): OnnxExecutionProvider | null {
+  return defaultBinding.getExecutionProvider(modelName);
+}
+
+/**
+ * Unload an ONNX model and release its session
+ * @param modelName The name of the model to unload
+ */
+export function unloadOnnxModel(modelName: string): Promise<void> {
+  return defaultBinding.unloadModel(modelName);
+}
@@ -0,0 +1,42 @@
+/**
+ * ONNX Worker Runtime
+ * Lets the model worker host run ONNX Runtime sessions with marshalled inputs.
+ */
+
+import type * as ort from 'onnxruntime-web';
+import { WorkerModelRuntime, registerWorkerRuntime } from './modelWorkerHost';
+import { onnxRuntimeFor } from './onnxModelAdapter';
+
+/**
+ * Worker host runtime for ONNX Runtime inference sessions
+ * Registered with every worker host when this module is imported
+ */
+export const onnxWorkerRuntime: WorkerModelRuntime = {
+  matches(model) {
+    return typeof model?.run === 'function' && Array.isArray(model.inputNames);
+  },
+
+  async tensorFactory(session: ort.InferenceSession) {
+    // Sessions only accept tensors of the build they were created with
+    const runtime = await onnxRuntimeFor(session);
+    return input => new runtime.Tensor(input.dtype as any, input.data as any, input.shape);
+  },
+
+  run(session: ort.InferenceSession, inputs, outputNames) {
+    const feeds = toOnnxFeeds(session, inputs);
+    const fetches = typeof outputNames === 'string' ? [outputNames] : outputNames;
+    return fetches ? session.run(feeds, fetches) : session.run(feeds);
+  }
+};
+
+registerWorkerRuntime(onnxWorkerRuntime);
+
+/**
+ * Map ONNX inputs given as a single tensor or a list onto the session's input names
+ */
+function toOnnxFeeds(session: ort.InferenceSession, inputs: any): Record<string, ort.Tensor> {
+  if (Array.isArray(inputs)) {
+    return Object.fromEntries(inputs.map((input, i) => [session.inputNames[i], input]));
+  }
+  return Array.isArray(inputs?.dims) ? { [session.inputNames[0]]: inputs } : inputs;
+}
@@ -0,0 +1,86 @@
+/**
+ * Page Lifecycle Signals
+ * Sources of visibility, freeze and memory-pressure signals that let
+ * the loader release idle models when the page no longer needs them.
+ */
+
+import { ModelScheduler, defaultScheduler } from './scheduler';
+
+/**
+ * Signals the loader reacts to
+ */
+export type PageLifecycleSignal = 'hidden' | 'visible' | 'freeze' | 'resume' | 'memory-pressure';
+
+/**
+ * A source of lifecycle signals
+ */
+export interface PageLifecycleSource {
+  /**
+   * Start delivering signals to a listener
+   * @returns A function that stops delivery
+   */
+  subscribe(listener: (signal: PageLifecycleSignal) => void): () => void;
+}
+
+/**
+ * Options for the browser lifecycle source
+ */
+export interface BrowserLifecycleSourceOptions {
+  memoryPollIntervalMs?: number; // How often to sample JS heap usage (default: 30s, 0 disables)
+  memoryPressureRatio?: number;  // Heap usage ratio treated as pressure (default: 0.9)
+  scheduler?: ModelScheduler;
+}
+
+/**
+ * Read the non-standard (Chromium only) JS heap statistics
+ */
+function readHeapUsage(): { usedJSHeapSize: number; jsHeapSizeLimit: number } | undefined {
+  return typeof performance !== 'undefined' ? (performance as any).memory : undefined;
+}
+
+/**
+ * Create a lifecycle source from browser events
+ * Uses visibilitychange, the Page Lifecycle freeze / resume events and,
+ * where available (Chromium), sampling of performance.memory.
+ * @param options Source options
+ */
+export function createBrowserLifecycleSource(
+  options: BrowserLifecycleSourceOptions = {}
+): PageLifecycleSource {
+  const scheduler = options.scheduler || defaultScheduler;
+  const memoryPollIntervalMs = options.memoryPollIntervalMs ?? 30 * 1000;
+  const memoryPressureRatio = options.memoryPressureRatio ?? 0.9;
+
+  return {
+    subscribe(listener) {
+      if (typeof document === 'undefined') {
+        return () => {};
+      }
+
+      const onVisibilityChange = () =>
+        listener(document.visibilityState === 'hidden' ? 'hidden' : 'visible');
+      const onFreeze = () => listener('freeze');
+      const onResume = () => listener('resume');
+
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      document.addEventListener('freeze', onFreeze);
+      document.addEventListener('resume', onResume);
+
+      const poll = readHeapUsage() && memoryPollIntervalMs > 0
+        ? scheduler.setInterval(() => {
+          const heap = readHeapUsage();
+          if (heap && heap.usedJSHeapSize / heap.jsHeapSizeLimit >= memoryPressureRatio) {
+            listener('memory-pressure');
+          }
+        }, memoryPollIntervalMs)
+        : null;
+
+      return () => {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        document.removeEventListener('freeze', onFreeze);
+        document.removeEventListener('resume', onResume);
+        if (poll !== null) scheduler.clearInterval(poll);
+      };
+    }
+  };
+}
@@ -0,0 +1,383 @@
+/**
+ * Persistent Model Cache
+ * Optional storage tier that keeps downloaded model artifacts across
+ * page reloads, keyed by model name and version.
+ */
+
+/**
+ * Metadata describing a stored model
+ */
+export interface StoredModelInfo {
+  key: string;
+  modelName: string;
+  version: string;
+  variant?: string; // Set for a fallback variant's copy
+  byteSize: number;
+  storedAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * A stored model: metadata plus the adapter-specific payload
+ */
+export interface StoredModelRecord extends StoredModelInfo {
+  payload: unknown;
+}
+
+/**
+ * Storage backend abstraction
+ * Implement this to persist models somewhere other than IndexedDB.
+ */
+export interface ModelStorageBackend {
+  get(key: string): Promise<StoredModelRecord | undefined>;
+  put(record: StoredModelRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredModelInfo[]>;
+  touch(key: string, lastAccessed: number): Promise<void>;
+  estimate?(): Promise<{ usage: number; quota: number } | null>;
+}
+
+/**
+ * In-memory storage backend
+ * Useful for tests and for environments without IndexedDB.
+ */
+export class MemoryStorageBackend implements ModelStorageBackend {
+  private records: Map<string, StoredModelRecord> = new Map();
+
+  constructor(private quota: number = Infinity) {}
+
+  public async get(key: string): Promise<StoredModelRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  public async put(record: StoredModelRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  public async list(): Promise<StoredModelInfo[]> {
+    return Array.from(this.records.values()).map(({ payload, ...info }) => info);
+  }
+
+  public async touch(key: string, lastAccessed: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record) record.lastAccessed = lastAccessed;
+  }
+
+  public async estimate(): Promise<{ usage: number; quota: number }> {
+    let usage = 0;
+    for (const record of this.records.values()) {
+      usage += record.byteSize;
+    }
+    return { usage, quota: this.quota };
+  }
+}
+
+/**
+ * IndexedDB storage backend
+ * Payloads and metadata live in separate object stores so listing
+ * stored models never reads the (potentially large) weight data.
+ */
+export class IndexedDBStorageBackend implements ModelStorageBackend {
+  private static readonly PAYLOAD_STORE = 'payloads';
+  private static readonly META_STORE = 'metadata';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = 'ai-model-loader') {}
+
+  public async get(key: string): Promise<StoredModelRecord | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(
+      [IndexedDBStorageBackend.META_STORE, IndexedDBStorageBackend.PAYLOAD_STORE],
+      'readonly'
+    );
+    const [info, payload] = await Promise.all([
+      request<StoredModelInfo | undefined>(tx.objectStore(IndexedDBStorageBackend.META_STORE).get(key)),
+      request<unknown>(tx.objectStore(IndexedDBStorageBackend.PAYLOAD_STORE).get(key))
+    ]);
+    return info && payload !== undefined ? { ...info, payload } : undefined;
+  }
+
+  public async put(record: StoredModelRecord): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(
+      [IndexedDBStorageBackend.META_STORE, IndexedDBStorageBackend.PAYLOAD_STORE],
+      'readwrite'
+    );
+    const { payload, ...info } = record;
+    tx.objectStore(IndexedDBStorageBackend.PAYLOAD_STORE).put(payload, record.key);
+    tx.objectStore(IndexedDBStorageBackend.META_STORE).put(info, record.key);
+    await complete(tx);
+  }
+
+  public async delete(key: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(
+      [IndexedDBStorageBackend.META_STORE, IndexedDBStorageBackend.PAYLOAD_STORE],
+      'readwrite'
+    );
+    tx.objectStore(IndexedDBStorageBackend.PAYLOAD_STORE).delete(key);
+    tx.objectStore(IndexedDBStorageBackend.META_STORE).delete(key);
+    await complete(tx);
+  }
+
+  public async list(): Promise<StoredModelInfo[]> {
+    const db = await this.open();
+    const tx = db.transaction(IndexedDBStorageBackend.META_STORE, 'readonly');
+    return request<StoredModelInfo[]>(tx.objectStore(IndexedDBStorageBackend.META_STORE).getAll());
+  }
+
+  public async touch(key: string, lastAccessed: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(IndexedDBStorageBackend.META_STORE, 'readwrite');
+    const store = tx.objectStore(IndexedDBStorageBackend.META_STORE);
+    const info = await request<StoredModelInfo | undefined>(store.get(key));
+    if (info) {
+      store.put({ ...info, lastAccessed }, key);
+    }
+    await complete(tx);
+  }
+
+  public async estimate(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+    const { usage = 0, quota = Infinity } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  /**
+   * Open (and upgrade if needed) the database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+      }
+
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.dbName, 1);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          db.createObjectStore(IndexedDBStorageBackend.PAYLOAD_STORE);
+          db.createObjectStore(IndexedDBStorageBackend.META_STORE);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.dbPromise = null;
+          reject(openRequest.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Persistent cache options
+ */
+export interface PersistentModelCacheOptions {
+  maxBytes?: number;       // Upper bound on stored bytes (default: unlimited)
+  quotaHeadroom?: number;  // Fraction of the browser quota to leave free (default: 0.1)
+}
+
+/**
+ * Persistent model cache
+ * Wraps a storage backend with versioned keys, quota awareness
+ * and purge APIs.
+ */
+export class PersistentModelCache {
+  private maxBytes: number;
+  private quotaHeadroom: number;
+  private variant: string | null = null;
+
+  /**
+   * Create a new persistent cache
+   * @param backend The storage backend to use
+   * @param options Cache options
+   */
+  constructor(
+    private backend: ModelStorageBackend,
+    options: PersistentModelCacheOptions = {}
+  ) {
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.quotaHeadroom = options.quotaHeadroom ?? 0.1;
+  }
+
+  /**
+   * Build the storage key for a model version
+   * @param variant A fallback variant id, stored apart from the primary source
+   */
+  public static key(modelName: string, version: string = 'latest', variant?: string | null): string {
+    return variant ? `${modelName}@${version}#${variant}` : `${modelName}@${version}`;
+  }
+
+  /**
+   * Get a view of this cache that stores a fallback variant's artifacts
+   * apart from the primary source's; purges still cover every variant
+   * @param variant The variant id
+   */
+  public forVariant(variant: string): PersistentModelCache {
+    const view = new PersistentModelCache(this.backend, {
+      maxBytes: this.maxBytes,
+      quotaHeadroom: this.quotaHeadroom
+    });
+    view.variant = variant;
+    return view;
+  }
+
+  /**
+   * Read a stored model payload
+   * @param modelName The name of the model
+   * @param version The model version
+   */
+  public async get<T = unknown>(modelName: string, version?: string): Promise<T | undefined> {
+    const key = PersistentModelCache.key(modelName, version, this.variant);
+    try {
+      const record = await this.backend.get(key);
+      if (!record) return undefined;
+
+      await this.backend.touch(key, Date.now());
+      return record.payload as T;
+    } catch (error) {
+      console.warn(`Failed to read model '${key}' from persistent cache:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a model payload, evicting older entries if needed to stay within quota
+   * @param modelName The name of the model
+   * @param version The model version
+   * @param payload The adapter-specific payload to store
+   * @param byteSize Approximate size of the payload in bytes
+   * @returns Whether the payload was stored
+   */
+  public async put(
+    modelName: string,
+    version: string | undefined,
+    payload: unknown,
+    byteSize: number
+  ): Promise<boolean> {
+    const key = PersistentModelCache.key(modelName, version, this.variant);
+    try {
+      if (!(await this.makeRoom(key, byteSize))) {
+        console.warn(`Not enough storage quota to persist model '${key}' (${byteSize} bytes).`);
+        return false;
+      }
+
+      const now = Date.now();
+      await this.backend.put({
+        key,
+        modelName,
+        version: version ?? 'latest',
+        ...(this.variant ? { variant: this.variant } : {}),
+        byteSize,
+        storedAt: now,
+        lastAccessed: now,
+        payload
+      });
+      return true;
+    } catch (error) {
+      console.warn(`Failed to persist model '${key}':`, error);
+      return false;
+    }
+  }
+
+  /**
+   * List stored models
+   */
+  public list(): Promise<StoredModelInfo[]> {
+    return this.backend.list();
+  }
+
+  /**
+   * Remove stored copies of a model
+   * @param modelName The name of the model
+   * @param version Optional version to remove (default: all versions)
+   */
+  public async purge(modelName: string, version?: string): Promise<void> {
+    const records = await this.backend.list();
+    for (const record of records) {
+      if (record.modelName === modelName && (version === undefined || record.version === version)) {
+        await this.backend.delete(record.key);
+      }
+    }
+  }
+
+  /**
+   * Remove stored copies of a model other than the given version
+   * @param modelName The name of the model
+   * @param currentVersion The version to keep
+   */
+  public async purgeStale(modelName: string, currentVersion: string = 'latest'): Promise<void> {
+    const records = await this.backend.list();
+    for (const record of records) {
+      if (record.modelName === modelName && record.version !== currentVersion) {
+        await this.backend.delete(record.key);
+      }
+    }
+  }
+
+  /**
+   * Remove every stored model
+   */
+  public async purgeAll(): Promise<void> {
+    const records = await this.backend.list();
+    for (const record of records) {
+      await this.backend.delete(record.key);
+    }
+  }
+
+  /**
+   * Evict least recently accessed models until the payload fits
+   * @param key The key being written (never evicted to make room for itself)
+   * @param byteSize The size of the payload being written
+   */
+  private async makeRoom(key: string, byteSize: number): Promise<boolean> {
+    const records = (await this.backend.list())
+      .filter(record => record.key !== key)
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    const stored = records.reduce((sum, record) => sum + record.byteSize, 0);
+    let available = this.maxBytes - stored;
+
+    const estimate = this.backend.estimate ? await this.backend.estimate() : null;
+    if (estimate) {
+      const usable = estimate.quota * (1 - this.quotaHeadroom) - estimate.usage;
+      available = Math.min(available, usable);
+    }
+
+    while (byteSize > available && records.length > 0) {
+      const oldest = records.shift()!;
+      await this.backend.delete(oldest.key);
+      available += oldest.byteSize;
+    }
+
+    return byteSize <= available;
+  }
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Resolve once an IndexedDB transaction has completed
+ */
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Preload Strategies
+ * Decide when a background preload should start: immediately, when the
+ * browser is idle, on interaction with a trigger element or when it
+ * scrolls into view.
+ */
+
+import { ModelScheduler, defaultScheduler } from './scheduler';
+
+/**
+ * Decides when a preload starts
+ */
+export interface PreloadStrategy {
+  /**
+   * Wait for the right moment, then call start (at most once)
+   * @param start Starts the preload
+   * @returns A function that stops waiting
+   */
+  schedule(start: () => void): () => void;
+}
+
+/**
+ * Start the preload right away
+ */
+export const preloadImmediately: PreloadStrategy = {
+  schedule(start) {
+    start();
+    return () => {};
+  }
+};
+
+/**
+ * Options for preloadOnIdle
+ */
+export interface IdlePreloadOptions {
+  timeoutMs?: number;       // Start anyway after this long (default: 5s)
+  fallbackDelayMs?: number; // Delay used where requestIdleCallback is unavailable (default: 1s)
+  scheduler?: ModelScheduler;
+}
+
+/**
+ * Start the preload once the browser is idle
+ * @param options Idle options
+ */
+export function preloadOnIdle(options: IdlePreloadOptions = {}): PreloadStrategy {
+  const { timeoutMs = 5000, fallbackDelayMs = 1000 } = options;
+  const scheduler = options.scheduler || defaultScheduler;
+
+  return {
+    schedule(start) {
+      if (typeof requestIdleCallback === 'function') {
+        const handle = requestIdleCallback(() => start(), { timeout: timeoutMs });
+        return () => cancelIdleCallback(handle);
+      }
+
+      // Safari has no requestIdleCallback; fall back to a short delay
+      const timer = scheduler.setTimeout(start, fallbackDelayMs);
+      return () => scheduler.clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Start the preload when the user shows intent to use a trigger element
+ * (pointer hover, keyboard focus or touch)
+ * @param target The trigger element, e.g. the button that runs the model
+ * @param events The events that signal intent
+ */
+export function preloadOnHover(
+  target: EventTarget,
+  events: string[] = ['pointerenter', 'focusin', 'touchstart']
+): PreloadStrategy {
+  return {
+    schedule(start) {
+      const stop = () => {
+        for (const type of events) target.removeEventListener(type, onIntent);
+      };
+      const onIntent = () => {
+        stop();
+        start();
+      };
+
+      for (const type of events) {
+        target.addEventListener(type, onIntent, { passive: true });
+      }
+      return stop;
+    }
+  };
+}
+
+/**
+ * Start the preload when an element scrolls into view
+ * Starts immediately where IntersectionObserver is unavailable.
+ * @param element The element to observe
+ * @param options Observer options, e.g. a rootMargin to start early
+ */
+export function preloadWhenVisible(
+  element: Element,
+  options: IntersectionObserverInit = { rootMargin: '200px' }
+): PreloadStrategy {
+  return {
+    schedule(start) {
+      if (typeof IntersectionObserver === 'undefined') {
+        start();
+        return () => {};
+      }
+
+      const observer = new IntersectionObserver(entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          observer.disconnect();
+          start();
+        }
+      }, options);
+
+      observer.observe(element);
+      return () => observer.disconnect();
+    }
+  };
+}
+
+/**
+ * Network conditions reported by the Network Information API
+ */
+export interface NetworkConditions {
+  saveData: boolean;
+  effectiveType?: string; // 'slow-2g' | '2g' | '3g' | '4g'
+}
+
+/**
+ * Read the current network conditions
+ * Returns null where the Network Information API is unavailable.
+ */
+export function getNetworkConditions(): NetworkConditions | null {
+  const connection = typeof navigator !== 'undefined' ? (navigator as any).connection : undefined;
+  if (!connection) return null;
+
+  return {
+    saveData: Boolean(connection.saveData),
+    effectiveType: connection.effectiveType
+  };
+}
+
+/**
+ * Check whether background downloads should be skipped because the user
+ * enabled data saving or is on a slow connection
+ * @param slowConnectionTypes Effective connection types considered slow
+ */
+export function isConstrainedNetwork(slowConnectionTypes: string[] = ['slow-2g', '2g']): boolean {
+  const conditions = getNetworkConditions();
+  if (!conditions) return false;
+
+  return conditions.saveData ||
+    (conditions.effectiveType !== undefined && slowConnectionTypes.includes(conditions.effectiveType));
+}
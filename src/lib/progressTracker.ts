@@ -0,0 +1,194 @@
+/**
+ * Download Progress Tracking
+ * Fetch wrapper that reports byte-level progress for model.json
+ * and every weight shard of a model download.
+ */
+
+/**
+ * Progress details for a model download
+ */
+export interface ModelLoadProgress {
+  url: string;               // File that produced this update
+  fileLoaded: number;        // Bytes received for this file
+  fileTotal: number | null;  // Expected bytes for this file, if known
+  loaded: number;            // Bytes received across all files
+  total: number | null;      // Expected bytes across all files, if known
+  fraction: number;          // Aggregate progress between 0 and 1
+}
+
+/**
+ * Fetch-compatible function signature
+ */
+export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Per-file download state
+ */
+interface FileProgress {
+  loaded: number;
+  total: number | null;
+  isModelJson: boolean;
+}
+
+/**
+ * Bytes per element for the dtypes used in tfjs weight manifests
+ */
+const DTYPE_BYTES: Record<string, number> = {
+  float32: 4,
+  int32: 4,
+  bool: 1,
+  uint8: 1,
+  uint16: 2,
+  float16: 2,
+  complex64: 8
+};
+
+/**
+ * Create a fetch function that reports download progress
+ * @param onProgress Callback invoked whenever new bytes arrive
+ * @param baseFetch The fetch implementation to wrap (defaults to global fetch)
+ */
+export function createProgressFetch(
+  onProgress: (progress: ModelLoadProgress) => void,
+  baseFetch: FetchFunction = (input, init) => fetch(input, init)
+): FetchFunction {
+  const files = new Map<string, FileProgress>();
+  let expectedWeightBytes: number | null = null;
+
+  const report = (url: string) => {
+    const file = files.get(url)!;
+    let loaded = 0;
+    let knownTotal = 0;
+    let allTotalsKnown = true;
+    let manifestTotal = 0;
+
+    for (const entry of files.values()) {
+      loaded += entry.loaded;
+      if (entry.total === null) {
+        allTotalsKnown = false;
+      } else {
+        knownTotal += entry.total;
+      }
+      if (entry.isModelJson) {
+        manifestTotal += entry.total ?? entry.loaded;
+      }
+    }
+
+    // The weights manifest tells us the size of shards that have not started yet
+    let total: number | null = allTotalsKnown ? knownTotal : null;
+    if (expectedWeightBytes !== null) {
+      total = Math.max(total ?? 0, manifestTotal + expectedWeightBytes);
+    }
+
+    onProgress({
+      url,
+      fileLoaded: file.loaded,
+      fileTotal: file.total,
+      loaded,
+      total,
+      fraction: total ? Math.min(loaded / total, 1) : 0
+    });
+  };
+
+  return async (input, init) => {
+    const response = await baseFetch(input, init);
+    const url = requestUrl(input);
+
+    if (!response.ok || !response.body) {
+      return response;
+    }
+
+    const lengthHeader = response.headers.get('content-length');
+    const file: FileProgress = {
+      loaded: 0,
+      total: lengthHeader ? parseInt(lengthHeader, 10) : null,
+      isModelJson: /\.json($|\?)/.test(url)
+    };
+    files.set(url, file);
+
+    const reader = response.body.getReader();
+    const jsonChunks: Uint8Array[] = [];
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          if (file.total === null) {
+            file.total = file.loaded;
+          }
+          if (file.isModelJson) {
+            expectedWeightBytes = estimateWeightBytes(jsonChunks) ?? expectedWeightBytes;
+          }
+          report(url);
+          controller.close();
+          return;
+        }
+
+        file.loaded += value.byteLength;
+        if (file.isModelJson) {
+          jsonChunks.push(value);
+        }
+        report(url);
+        controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      }
+    });
+
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
+
+/**
+ * Extract the URL string from a fetch input
+ */
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+/**
+ * Compute the total weight size declared by a model.json weights manifest
+ * @param chunks The raw bytes of the model.json file
+ */
+function estimateWeightBytes(chunks: Uint8Array[]): number | null {
+  try {
+    const text = new TextDecoder().decode(concatChunks(chunks));
+    const modelJson = JSON.parse(text);
+    if (!Array.isArray(modelJson.weightsManifest)) return null;
+
+    let bytes = 0;
+    for (const group of modelJson.weightsManifest) {
+      for (const weight of group.weights || []) {
+        const size = (weight.shape as number[]).reduce((a, b) => a * b, 1);
+        const dtype = weight.quantization ? weight.quantization.dtype : weight.dtype;
+        bytes += size * (DTYPE_BYTES[dtype] ?? 4);
+      }
+    }
+    return bytes;
+  } catch (error) {
+    // Not a model.json we understand; fall back to content-length totals
+    return null;
+  }
+}
+
+/**
+ * Join downloaded chunks into a single buffer
+ */
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
@@ -0,0 +1,77 @@
+/**
+ * Request Options
+ * Base URLs, URL rewriting and request init shared by every model fetch,
+ * e.g. for models behind authenticated or signed CDN URLs.
+ */
+
+import { FetchFunction } from './progressTracker';
+import { defaultBaseUrl } from './runtime';
+
+/**
+ * Rewrites each model file URL before it is fetched, e.g. to sign it
+ * Called for every request (model.json, weight files, ONNX files) on every attempt.
+ */
+export type ModelUrlResolver = (url: string, modelName: string) => string | Promise<string>;
+
+/**
+ * Resolve a model URL against a base URL
+ * Absolute URLs are returned unchanged. A relative base URL resolves against
+ * the page URL, or in Node.js against the working directory.
+ * @param url The model URL
+ * @param baseUrl The base URL, e.g. https://cdn.example.com/models/ or /models/
+ */
+export function joinBaseUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl) return url;
+  try {
+    return new URL(url, new URL(baseUrl, defaultBaseUrl())).href;
+  } catch (error) {
+    console.warn(`Could not resolve '${url}' against base URL '${baseUrl}'`, error);
+    return url;
+  }
+}
+
+/**
+ * Merge request init objects; later ones win, headers are merged key by key
+ * @param inits The request inits to merge, in increasing priority
+ */
+export function mergeRequestInit(...inits: Array<RequestInit | undefined>): RequestInit {
+  const merged: RequestInit = {};
+  const headers = new Headers();
+  let hasHeaders = false;
+
+  for (const init of inits) {
+    if (!init) continue;
+    Object.assign(merged, init);
+    if (init.headers) {
+      new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+      hasHeaders = true;
+    }
+  }
+
+  if (hasHeaders) {
+    const plain: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      plain[key] = value;
+    });
+    merged.headers = plain; // Plain objects stay cloneable for worker mode
+  }
+  return merged;
+}
+
+/**
+ * Create a fetch function that passes every request URL through a resolver
+ * @param modelName The model being downloaded, passed to the resolver
+ * @param resolveUrl The URL resolver
+ * @param baseFetch The fetch implementation to wrap (defaults to global fetch)
+ */
+export function createResolvingFetch(
+  modelName: string,
+  resolveUrl: ModelUrlResolver,
+  baseFetch: FetchFunction = (input, init) => fetch(input, init)
+): FetchFunction {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const resolved = await resolveUrl(url, modelName);
+    return baseFetch(typeof input === 'string' || input instanceof URL ? resolved : new Request(resolved, input), init);
+  };
+}
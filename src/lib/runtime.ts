@@ -0,0 +1,112 @@
+/**
+ * Runtime Detection
+ * Tells browsers, workers and Node.js apart, and loads model files
+ * from the local file system when running in Node.js.
+ */
+
+import type { FetchFunction } from './progressTracker';
+
+/**
+ * The environment the loader runs in
+ */
+export type RuntimeEnvironment = 'browser' | 'worker' | 'node';
+
+/**
+ * Detect the environment the loader runs in
+ */
+export function detectRuntime(): RuntimeEnvironment {
+  if (typeof document !== 'undefined') return 'browser';
+  if (typeof (globalThis as any).importScripts === 'function') return 'worker';
+  if (typeof process !== 'undefined' && !!process.versions?.node) return 'node';
+  return 'browser';
+}
+
+/**
+ * Check whether the loader runs in Node.js
+ */
+export function isNodeRuntime(): boolean {
+  return detectRuntime() === 'node';
+}
+
+/**
+ * The URL relative URLs resolve against: the page (or worker script) URL,
+ * else the working directory in Node.js
+ */
+export function defaultBaseUrl(): string | undefined {
+  if (typeof location !== 'undefined' && location.href) return location.href;
+  if (!isNodeRuntime()) return undefined;
+
+  const cwd = process.cwd().replace(/\\/g, '/');
+  return `file://${cwd.startsWith('/') ? '' : '/'}${encodeURI(cwd).replace(/[?#]/g, encodeURIComponent)}/`;
+}
+
+/**
+ * Check whether a model URL points to the local file system: a file:// URL,
+ * or in Node.js a plain absolute or relative path
+ * @param url The model URL
+ */
+export function isLocalModelUrl(url: string): boolean {
+  if (/^file:/i.test(url)) return true;
+  if (!isNodeRuntime()) return false;
+
+  // Anything without a scheme, including Windows drive paths
+  return /^[a-z]:[\\/]/i.test(url) || !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * Resolve a local model path to a file:// URL of the model file
+ * Directories resolve to the file inside them, e.g. model.json.
+ * @param url A file:// URL or a path, relative to the working directory
+ * @param defaultFile The file to use when the path is a directory
+ */
+export async function resolveLocalModelUrl(url: string, defaultFile: string): Promise<string> {
+  const [{ stat }, path, { fileURLToPath, pathToFileURL }] = await Promise.all([
+    import('fs/promises'),
+    import('path'),
+    import('url')
+  ]);
+
+  let filePath = /^file:/i.test(url) ? fileURLToPath(url) : path.resolve(url);
+  try {
+    if ((await stat(filePath)).isDirectory()) {
+      filePath = path.join(filePath, defaultFile);
+    }
+  } catch (error) {
+    // Missing paths are reported as not found when the file is read
+  }
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * Create a fetch function that reads file:// URLs from disk (Node.js only)
+ * and passes every other request to the wrapped fetch
+ * @param baseFetch The fetch implementation to wrap (defaults to global fetch)
+ */
+export function createFileFetch(
+  baseFetch: FetchFunction = (input, init) => fetch(input, init)
+): FetchFunction {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!/^file:/i.test(url) || !isNodeRuntime()) {
+      return baseFetch(input, init);
+    }
+
+    init?.signal?.throwIfAborted();
+    const [{ readFile }, { fileURLToPath }] = await Promise.all([import('fs/promises'), import('url')]);
+
+    let data: Uint8Array;
+    try {
+      data = await readFile(fileURLToPath(url), { signal: init?.signal ?? undefined });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Response(null, { status: 404, statusText: 'Not Found' });
+      }
+      throw error;
+    }
+
+    return new Response(data, {
+      status: 200,
+      headers: { 'Content-Length': String(data.byteLength) }
+    });
+  };
+}
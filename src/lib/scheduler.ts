@@ -0,0 +1,32 @@
+/**
+ * Scheduler
+ * Clock and timer abstraction so time-based behaviour can be
+ * driven by a fake clock in tests.
+ */
+
+/**
+ * Opaque timer handle
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Clock and timer functions used by the loader
+ */
+export interface ModelScheduler {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+/**
+ * Scheduler backed by the global timer functions
+ */
+export const defaultScheduler: ModelScheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>)
+};
@@ -0,0 +1,336 @@
+/**
+ * Tab Coordination
+ * Lets loaders in several tabs of the same app share model downloads:
+ * one tab fetches a model and fills the persistent cache while the others
+ * wait for it, and every tab sees the others' status transitions.
+ */
+
+import { ModelLoadingStatus } from './aiModelLoader';
+
+/**
+ * Messages exchanged between tabs
+ */
+export type CoordinationMessage =
+  | { type: 'hello'; tabId: string } // A tab joined; others reply with their statuses
+  | { type: 'bye'; tabId: string }   // A tab left
+  | { type: 'status'; tabId: string; modelName: string; status: ModelLoadingStatus };
+
+/**
+ * Carries messages between tabs
+ * Implement this to coordinate over something other than BroadcastChannel.
+ */
+export interface CoordinationTransport {
+  post(message: CoordinationMessage): void; // Delivered to every other tab, not to the sender
+  subscribe(listener: (message: CoordinationMessage) => void): () => void;
+  close?(): void;
+}
+
+/**
+ * An exclusive lock shared by every tab, in the style of the Web Locks API
+ */
+export interface CoordinationLock {
+  /**
+   * Run a task once no other tab holds the lock
+   * @param name The lock name
+   * @param signal Stops waiting for the lock when aborted
+   * @param task Runs while the lock is held
+   */
+  acquire<T>(name: string, signal: AbortSignal, task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A model status reported by another tab
+ */
+export interface TabStatusUpdate {
+  tabId: string;
+  modelName: string;
+  status: ModelLoadingStatus;
+}
+
+/**
+ * TabCoordinator constructor options
+ */
+export interface TabCoordinatorOptions {
+  transport?: CoordinationTransport | null; // Default: a BroadcastChannel when available
+  lock?: CoordinationLock | null;           // Default: the Web Locks API when available
+  channelName?: string;                     // Name of the default channel and lock prefix (default: 'ai-model-loader')
+  tabId?: string;                           // Default: a random id
+}
+
+/**
+ * Transport over a BroadcastChannel
+ */
+export class BroadcastChannelTransport implements CoordinationTransport {
+  private channel: BroadcastChannel;
+
+  constructor(channelName: string = 'ai-model-loader') {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  public post(message: CoordinationMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(listener: (message: CoordinationMessage) => void): () => void {
+    const onMessage = (event: MessageEvent) => listener(event.data);
+    this.channel.addEventListener('message', onMessage);
+    return () => this.channel.removeEventListener('message', onMessage);
+  }
+
+  public close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Lock backed by the Web Locks API
+ * Locks held by a tab are released automatically when it closes.
+ */
+export class WebLocksCoordinationLock implements CoordinationLock {
+  public acquire<T>(name: string, signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+    return navigator.locks.request(name, { signal }, () => task());
+  }
+}
+
+/**
+ * In-memory transport and lock connecting several loaders in one context
+ * Useful for tests: give each simulated tab its own connect() transport
+ * and the shared lock.
+ */
+export class MemoryCoordinationHub {
+  private connections: Set<(message: CoordinationMessage) => void> = new Set();
+  private locks: Map<string, Promise<void>> = new Map();
+
+  public readonly lock: CoordinationLock = {
+    acquire: (name, signal, task) => this.acquire(name, signal, task)
+  };
+
+  /**
+   * Create a transport for one simulated tab
+   */
+  public connect(): CoordinationTransport {
+    const listeners: Set<(message: CoordinationMessage) => void> = new Set();
+    const deliver = (message: CoordinationMessage) => {
+      for (const listener of listeners) listener(message);
+    };
+    this.connections.add(deliver);
+
+    return {
+      post: message => {
+        // Delivered asynchronously and never to the sender, like BroadcastChannel
+        for (const connection of this.connections) {
+          if (connection !== deliver) Promise.resolve().then(() => connection(message));
+        }
+      },
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        this.connections.delete(deliver);
+        listeners.clear();
+      }
+    };
+  }
+
+  /**
+   * Run a task once earlier holders of the same lock are done
+   */
+  private async acquire<T>(name: string, signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(name) || Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>(resolve => release = resolve);
+    const tail = previous.then(() => held);
+    this.locks.set(name, tail);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        previous.then(() => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        });
+      });
+      return await task();
+    } finally {
+      release();
+      if (this.locks.get(name) === tail) this.locks.delete(name);
+    }
+  }
+}
+
+/**
+ * Coordinates model loading with the loaders of other tabs
+ * Pass one to AIModelLoader to elect a single tab to download each
+ * persisted model and to share status transitions between tabs.
+ */
+export class TabCoordinator {
+  public readonly tabId: string;
+  private transport: CoordinationTransport | null;
+  private lock: CoordinationLock | null;
+  private lockPrefix: string;
+  private localStatuses: Map<string, ModelLoadingStatus> = new Map();
+  private remoteStatuses: Map<string, Map<string, ModelLoadingStatus>> = new Map(); // By model, then tab
+  private listeners: Set<(update: TabStatusUpdate) => void> = new Set();
+  private unsubscribe: (() => void) | null = null;
+  private onPageHide: (() => void) | null = null;
+
+  /**
+   * Create a coordinator and announce this tab to the others
+   * @param options Transport, lock and identity of this tab
+   */
+  constructor(options: TabCoordinatorOptions = {}) {
+    const channelName = options.channelName || 'ai-model-loader';
+    this.tabId = options.tabId || randomTabId();
+    this.lockPrefix = `${channelName}:`;
+    this.transport = options.transport !== undefined
+      ? options.transport
+      : typeof BroadcastChannel !== 'undefined' ? new BroadcastChannelTransport(channelName) : null;
+    this.lock = options.lock !== undefined
+      ? options.lock
+      : typeof navigator !== 'undefined' && navigator.locks ? new WebLocksCoordinationLock() : null;
+
+    if (this.transport) {
+      this.unsubscribe = this.transport.subscribe(message => this.handleMessage(message));
+      this.transport.post({ type: 'hello', tabId: this.tabId });
+    }
+
+    // Tell the other tabs to forget this one when the page goes away
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      this.onPageHide = () => this.transport?.post({ type: 'bye', tabId: this.tabId });
+      window.addEventListener('pagehide', this.onPageHide);
+    }
+  }
+
+  /**
+   * Run a task while holding a lock shared by every tab
+   * Runs the task directly when no lock is available.
+   * @param key The resource to lock, e.g. a model and version
+   * @param signal Stops waiting for the lock when aborted
+   * @param task The work to do while holding the lock
+   */
+  public runExclusive<T>(key: string, signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+    return this.lock ? this.lock.acquire(this.lockPrefix + key, signal, task) : task();
+  }
+
+  /**
+   * Share a status transition of this tab
+   * @param modelName The model
+   * @param status Its new status in this tab
+   */
+  public publish(modelName: string, status: ModelLoadingStatus): void {
+    if (status === ModelLoadingStatus.IDLE) {
+      this.localStatuses.delete(modelName);
+    } else {
+      this.localStatuses.set(modelName, status);
+    }
+    this.transport?.post({ type: 'status', tabId: this.tabId, modelName, status });
+  }
+
+  /**
+   * Get a model's status in the other tabs
+   * Tabs where the model is idle are omitted.
+   * @param modelName The model
+   * @returns Statuses keyed by tab id
+   */
+  public getRemoteStatuses(modelName: string): Record<string, ModelLoadingStatus> {
+    const statuses: Record<string, ModelLoadingStatus> = {};
+    for (const [tabId, status] of this.remoteStatuses.get(modelName) || []) {
+      statuses[tabId] = status;
+    }
+    return statuses;
+  }
+
+  /**
+   * Listen for status transitions in other tabs
+   * @param listener Called with each update
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: (update: TabStatusUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Leave the coordination: notify the other tabs and close the transport
+   */
+  public close(): void {
+    if (this.onPageHide) {
+      window.removeEventListener('pagehide', this.onPageHide);
+      this.onPageHide = null;
+    }
+    if (this.transport) {
+      this.transport.post({ type: 'bye', tabId: this.tabId });
+      this.unsubscribe?.();
+      this.transport.close?.();
+      this.transport = null;
+    }
+    this.listeners.clear();
+    this.remoteStatuses.clear();
+  }
+
+  /**
+   * Apply a message from another tab
+   */
+  private handleMessage(message: CoordinationMessage): void {
+    if (message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'hello':
+        // Bring the new tab up to date
+        for (const [modelName, status] of this.localStatuses) {
+          this.transport?.post({ type: 'status', tabId: this.tabId, modelName, status });
+        }
+        break;
+      case 'bye':
+        for (const [modelName, statuses] of this.remoteStatuses) {
+          if (statuses.delete(message.tabId)) {
+            this.notify({ tabId: message.tabId, modelName, status: ModelLoadingStatus.IDLE });
+          }
+        }
+        break;
+      case 'status': {
+        let statuses = this.remoteStatuses.get(message.modelName);
+        if (!statuses) {
+          statuses = new Map();
+          this.remoteStatuses.set(message.modelName, statuses);
+        }
+        if (message.status === ModelLoadingStatus.IDLE) {
+          statuses.delete(message.tabId);
+        } else {
+          statuses.set(message.tabId, message.status);
+        }
+        this.notify(message);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Deliver an update to the listeners
+   */
+  private notify({ tabId, modelName, status }: TabStatusUpdate): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ tabId, modelName, status });
+      } catch (error) {
+        console.error('Error in tab status listener:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Generate an id for this tab
+ */
+function randomTabId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
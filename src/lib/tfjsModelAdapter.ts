@@ -4,161 +4,635 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
-import { AIModelConfig, ModelLoadingStatus, aiModelLoader } from './aiModelLoader';
+import {
+  AIModelConfig,
+  AIModelLoader,
+  ModelLoadContext,
+  ModelLoadOptions,
+  ModelProgressCallback,
+  aiModelLoader
+} from './aiModelLoader';
+import {
+  ModelBackendError,
+  ModelFormatError,
+  ModelIncompatibleError,
+  ModelLoaderError,
+  ModelOutOfMemoryError,
+  createCheckedFetch
+} from './errors';
+import { IntegrityFetch, createIntegrityFetch } from './integrity';
+import { ModelAdapter } from './modelAdapter';
+import {
+  InputShapeSpec,
+  ModelInputs,
+  isTypedArray,
+  normalizeInputs,
+  shapeForTypedArray,
+  validateShape
+} from './modelInputs';
+import { createProgressFetch } from './progressTracker';
+import { createFileFetch, isLocalModelUrl, isNodeRuntime, resolveLocalModelUrl } from './runtime';
+
+/**
+ * TensorFlow.js backends
+ * Backends other than webgl and cpu need their package imported, e.g. @tensorflow/tfjs-backend-wasm;
+ * 'tensorflow' is the native Node.js backend from @tensorflow/tfjs-node.
+ */
+export type TfjsBackendName = 'webgpu' | 'webgl' | 'wasm' | 'cpu' | 'tensorflow';
+
+/**
+ * A tfjs IO handler, or a function creating one when the model loads
+ */
+export type TfjsIOHandlerSource = tf.io.IOHandler | (() => tf.io.IOHandler | Promise<tf.io.IOHandler>);
 
 /**
  * TensorFlow.js model specific configuration
  */
 export interface TfjsModelConfig extends AIModelConfig {
   modelType: 'tfjs';
-  modelUrl: string;
+  modelUrl?: string; // Required unless ioHandler is set; in Node.js also a file:// URL, a path, or a directory containing model.json
   modelFormat?: 'graph' | 'layers' | 'tfhub';
   inputShape?: number[];
   warmup?: boolean;
+  outputNodes?: string | string[]; // Graph / TF Hub outputs to select, by node name or signature key
+  weightPathPrefix?: string; // Where weight files live, if not next to model.json
+  ioHandler?: TfjsIOHandlerSource; // Loads the artifacts instead of fetching modelUrl, e.g. from memory or bundled assets
+  backends?: TfjsBackendName[];        // Backends the model may run on, in order of preference
+  excludeBackends?: TfjsBackendName[]; // Backends the model must not run on
 }
 
+const TFJS_BACKENDS: TfjsBackendName[] = ['webgpu', 'webgl', 'wasm', 'cpu', 'tensorflow'];
+const DEFAULT_BACKEND_PREFERENCE: TfjsBackendName[] = ['webgl', 'cpu'];
+const NODE_BACKEND_PREFERENCE: TfjsBackendName[] = ['tensorflow', 'wasm', 'cpu'];
+
+// Preference set with setTfBackendPreference; null keeps whichever backend is active
+let backendPreference: TfjsBackendName[] | null = null;
+
+// Whether each backend initializes on this device, probed once
+const backendProbes: Map<TfjsBackendName, Promise<boolean>> = new Map();
+
+// The backend each model was loaded on
+const modelBackends: WeakMap<tf.LayersModel | tf.GraphModel, TfjsBackendName> = new WeakMap();
+
 /**
- * Register a TensorFlow.js model with the loader
- * @param config TensorFlow.js model configuration
+ * TensorFlow.js model adapter
+ * Registered as the default adapter for the 'tfjs' modelType
  */
-export function registerTfjsModel(config: Omit<TfjsModelConfig, 'loadModel'>): void {
-  const fullConfig: TfjsModelConfig = {
-    ...config,
-    modelType: 'tfjs',
-    loadModel: async () => {
+export const tfjsAdapter: ModelAdapter<tf.LayersModel | tf.GraphModel, TfjsModelConfig> = {
+  modelType: 'tfjs',
+
+  validate(config) {
+    if (!config.modelUrl && !config.ioHandler) {
+      throw new Error(`TensorFlow.js model '${config.name}' requires a modelUrl or an ioHandler.`);
+    }
+    if (config.modelFormat && !['layers', 'graph', 'tfhub'].includes(config.modelFormat)) {
+      throw new Error(`Unsupported model format: ${config.modelFormat}`);
+    }
+    const unknown = [...(config.backends || []), ...(config.excludeBackends || [])]
+      .filter(backend => !TFJS_BACKENDS.includes(backend));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown TensorFlow.js backend(s) for model '${config.name}': ${unknown.join(', ')}`);
+    }
+    if (config.backends && candidateBackends(config).length === 0) {
+      throw new Error(`Model '${config.name}' excludes every backend it allows.`);
+    }
+  },
+
+  async load(config, context) {
+    // Ensure TensorFlow.js is initialized on a backend this model accepts
+    const backend = await ensureTfBackend(config);
+    console.log(config.ioHandler
+      ? `Loading model '${config.name}' from its IO handler`
+      : `Loading model from URL: ${config.modelUrl}`);
+    
+    // TF Hub handles point at a module; the converted graph model lives next to it
+    if (config.modelFormat === 'tfhub' && config.modelUrl) {
+      config = { ...config, modelUrl: resolveTfHubUrl(config.modelUrl) };
+    }
+    
+    // Local paths (Node.js) point at model.json or the directory holding it
+    if (config.modelUrl && !config.ioHandler && isLocalModelUrl(config.modelUrl)) {
+      config = { ...config, modelUrl: await resolveLocalModelUrl(config.modelUrl, 'model.json') };
+    }
+    
+    // Route every request through the progress tracker, error typing and integrity check, and make it abortable
+    const integrityFetch = createIntegrityFetch(
+      config.name,
+      config.integrity,
+      createCheckedFetch(
+        config.name,
+        createProgressFetch(context.onProgress, createFileFetch(context.fetchFunc))
+      )
+    );
+    const loadOptions: tf.io.LoadOptions = {
+      fetchFunc: integrityFetch,
+      requestInit: { ...context.requestInit, signal: context.signal },
+      weightPathPrefix: config.weightPathPrefix
+    };
+    let source: tf.io.IOHandler;
+    try {
+      source = await resolveModelSource(config, context, loadOptions, integrityFetch);
+    } catch (error) {
+      // Failed requests are already typed; anything else means the files are not a model
+      throw error instanceof ModelLoaderError ? error : new ModelFormatError(config.name, config.modelUrl, error);
+    }
+    
+    // Build the model based on format
+    let model: tf.LayersModel | tf.GraphModel;
+    try {
+      model = config.modelFormat === 'graph' || config.modelFormat === 'tfhub'
+        ? await tf.loadGraphModel(source, loadOptions)
+        : await tf.loadLayersModel(source, loadOptions);
+    } catch (error) {
+      // The artifacts parsed, so the runtime cannot build what they describe
+      throw error instanceof RangeError
+        ? new ModelOutOfMemoryError(config.name, error)
+        : new ModelIncompatibleError(config.name, config.modelUrl, error);
+    }
+    
+    if (model instanceof tf.GraphModel) {
       try {
-        // Ensure TensorFlow.js is initialized
-        await ensureTfBackend();
-        console.log(`Loading model from URL: ${config.modelUrl}`);
-        
-        // Load the model based on format
-        let model: tf.LayersModel | tf.GraphModel;
-        
-        if (config.modelFormat === 'layers' || !config.modelFormat) {
-          model = await tf.loadLayersModel(config.modelUrl);
-        } else if (config.modelFormat === 'graph') {
-          model = await tf.loadGraphModel(config.modelUrl);
+        selectOutputNodes(model, config);
+      } catch (error) {
+        model.dispose();
+        throw error;
+      }
+    }
+    modelBackends.set(model, backend);
+    return model;
+  },
+
+  async warmup(model, config) {
+    // Optional: Warm up the model with a dummy prediction if specified
+    if (!config.warmup || !config.inputShape) return;
+
+    await activateModelBackend(model);
+    const dummyInput = tf.zeros(config.inputShape);
+    try {
+      const outputs = await executeModel(
+        model,
+        dummyInput,
+        model instanceof tf.GraphModel ? selectOutputNodes(model, config) : undefined
+      );
+      tf.dispose(outputs);
+    } finally {
+      dummyInput.dispose();
+    }
+  },
+
+  async run(model, inputs, config, options) {
+    await activateModelBackend(model);
+    const specs = inputSpecs(model, config);
+    const created: tf.Tensor[] = [];
+    let outputs: tf.Tensor | tf.Tensor[] | tf.NamedTensorMap;
+
+    try {
+      const tensors = normalizeInputs(config.name, inputs, specs).map(({ spec, value }) => {
+        let tensor: tf.Tensor;
+        if (value instanceof tf.Tensor) {
+          tensor = value;
         } else {
-          throw new Error(`Unsupported model format: ${config.modelFormat}`);
+          tensor = isTypedArray(value)
+            ? tf.tensor(value as any, shapeForTypedArray(config.name, spec, value.length))
+            : tf.tensor(value as any);
+          created.push(tensor);
         }
-        
-        // Optional: Warm up the model with a dummy prediction if specified
-        if (config.warmup && config.inputShape) {
-          const dummyInput = tf.zeros(config.inputShape);
-          // For layers model
-          if ('predict' in model) {
-            model.predict(dummyInput);
-          } 
-          // For graph model
-          else if ('execute' in model) {
-            (model as tf.GraphModel).execute(dummyInput);
-          }
-          dummyInput.dispose();
-        }
-        
-        return model;
+        validateShape(config.name, spec, tensor.shape);
+        return tensor;
+      });
+
+      const feed = model instanceof tf.GraphModel && tensors.length > 1
+        ? Object.fromEntries(tensors.map((tensor, i) => [specs[i].name, tensor]))
+        : tensors.length === 1 ? tensors[0] : tensors;
+      const outputNames = model instanceof tf.GraphModel
+        ? options.outputs ?? selectOutputNodes(model, config)
+        : undefined;
+
+      outputs = await executeModel(model, feed, outputNames);
+    } finally {
+      tf.dispose(created);
+    }
+
+    if (options.returnTensors) {
+      return outputs;
+    }
+    try {
+      return await tensorsToData(outputs);
+    } finally {
+      tf.dispose(outputs);
+    }
+  },
+
+  tensorNames(model, config) {
+    if (model instanceof tf.LayersModel) {
+      return { inputs: model.inputNames, outputs: model.outputNames };
+    }
+    const outputs = selectOutputNodes(model, config) ?? model.outputNodes;
+    return { inputs: model.inputNodes, outputs: Array.isArray(outputs) ? outputs : [outputs] };
+  },
+
+  dispose(model) {
+    // Free the GPU / CPU memory held by the model's weights
+    model.dispose();
+  },
+
+  backend(model) {
+    return modelBackends.get(model) || null;
+  },
+
+  estimateMemory(model) {
+    if (model instanceof tf.LayersModel) {
+      return model.weights.reduce(
+        (bytes, weight) => bytes + weight.read().size * bytesPerElement(weight.dtype),
+        0
+      );
+    }
+
+    let bytes = 0;
+    for (const tensors of Object.values(model.weights)) {
+      for (const tensor of tensors) {
+        bytes += tensor.size * bytesPerElement(tensor.dtype);
+      }
+    }
+    return bytes;
+  }
+};
+
+AIModelLoader.registerDefaultAdapter(tfjsAdapter);
+
+/**
+ * TensorFlow.js helpers bound to one loader
+ */
+export interface TfjsModelBinding {
+  readonly loader: AIModelLoader;
+  registerModel(config: Omit<TfjsModelConfig, 'loadModel'>): void;
+  loadModel<T extends tf.LayersModel | tf.GraphModel>(
+    modelName: string,
+    progressCallback?: ModelProgressCallback,
+    options?: Omit<ModelLoadOptions, 'onProgress'>
+  ): Promise<T>;
+  unloadModel(modelName: string): Promise<void>;
+  getBackend(modelName: string): TfjsBackendName | null;
+}
+
+/**
+ * Create TensorFlow.js helpers for a loader, e.g. a scope or a loader created in a test
+ * @param loader The loader to register and load models with
+ */
+export function createTfjsBinding(loader: AIModelLoader): TfjsModelBinding {
+  return {
+    loader,
+
+    registerModel(config) {
+      loader.registerModel({
+        ...config,
+        modelType: 'tfjs'
+      });
+    },
+
+    loadModel<T extends tf.LayersModel | tf.GraphModel>(
+      modelName: string,
+      progressCallback?: ModelProgressCallback,
+      options: Omit<ModelLoadOptions, 'onProgress'> = {}
+    ): Promise<T> {
+      return loader.loadModel<T>(modelName, undefined, {
+        ...options,
+        onProgress: progressCallback
+      });
+    },
+
+    async unloadModel(modelName) {
+      try {
+        await loader.unloadModel(modelName);
       } catch (error) {
-        console.error('Failed to load TensorFlow.js model:', error);
-        // Provide more detailed error information
-        if (error instanceof Error) {
-          // Check for common error patterns
-          if (error.message.includes('fetch')) {
-            throw new Error(`Network error loading model from ${config.modelUrl}. Check your internet connection and CORS settings.`);
-          } else if (error.message.includes('JSON')) {
-            throw new Error(`Invalid model format or corrupt model file at ${config.modelUrl}. The file might not be a valid TensorFlow.js model.`);
-          } else if (error.message.includes('undefined is not an object') || error.message.includes('null')) {
-            throw new Error(`Model structure error. The model at ${config.modelUrl} may be incompatible with the current TensorFlow.js version.`);
-          }
-        }
-        // If we can't provide a more specific error, rethrow the original
-        throw error;
+        console.error(`Error unloading model '${modelName}':`, error);
       }
+    },
+
+    getBackend(modelName) {
+      const model = loader.getModel<tf.LayersModel | tf.GraphModel>(modelName);
+      return model ? modelBackends.get(model) || null : null;
     }
   };
-  
-  aiModelLoader.registerModel(fullConfig);
+}
+
+// Helpers for the aiModelLoader singleton, behind the free functions below
+const defaultBinding = createTfjsBinding(aiModelLoader);
+
+/**
+ * Register a TensorFlow.js model with the loader
+ * @param config TensorFlow.js model configuration
+ */
+export function registerTfjsModel(config: Omit<TfjsModelConfig, 'loadModel'>): void {
+  defaultBinding.registerModel(config);
+}
+
+/**
+ * Bytes used per element of a tensor dtype
+ */
+function bytesPerElement(dtype: tf.DataType): number {
+  switch (dtype) {
+    case 'bool':
+      return 1;
+    case 'complex64':
+      return 8;
+    default:
+      return 4;
+  }
+}
+
+/**
+ * Declared inputs of a model: the config's signature, else the model's own
+ * input shapes, else the warmup inputShape with a free batch dimension
+ */
+function inputSpecs(
+  model: tf.LayersModel | tf.GraphModel,
+  config: Omit<TfjsModelConfig, 'loadModel'>
+): InputShapeSpec[] {
+  const declared = config.signature?.inputs;
+  const names = model instanceof tf.LayersModel ? model.inputNames : model.inputNodes;
+  const modelShapes = model instanceof tf.LayersModel
+    ? model.inputs.map(input => input.shape)
+    : model.inputs.map(input => input.shape ?? null);
+
+  return names.map((name, i) => ({
+    name: declared?.[i]?.name ?? name,
+    shape: declared?.[i]?.shape ??
+      modelShapes[i] ??
+      (names.length === 1 && config.inputShape ? [null, ...config.inputShape.slice(1)] : null)
+  }));
 }
 
 /**
- * Ensure TensorFlow.js backend is initialized
+ * Execute a model and return only its outputs
+ * Synchronous execution runs inside tf.tidy; graph models with dynamic ops
+ * (control flow) fall back to executeAsync, which cannot be tidied.
  */
-export async function ensureTfBackend(): Promise<string> {
-  if (tf.getBackend()) {
-    return tf.getBackend()!;
+async function executeModel(
+  model: tf.LayersModel | tf.GraphModel,
+  inputs: tf.Tensor | tf.Tensor[] | tf.NamedTensorMap,
+  outputs?: string | string[]
+): Promise<tf.Tensor | tf.Tensor[] | tf.NamedTensorMap> {
+  if (model instanceof tf.LayersModel) {
+    return tf.tidy(() => model.predict(inputs as tf.Tensor | tf.Tensor[]));
   }
-  
-  console.log('Initializing TensorFlow.js backend...');
-  
-  // Try WebGL first for better performance
+
   try {
-    await tf.setBackend('webgl');
-    await tf.ready();
-    console.log('Using WebGL backend');
-    return 'webgl';
-  } catch (e) {
-    console.warn('WebGL backend failed to initialize, falling back to CPU', e);
-    
-    // Fall back to CPU
-    try {
-      await tf.setBackend('cpu');
-      await tf.ready();
-      console.log('Using CPU backend');
-      return 'cpu';
-    } catch (err) {
-      console.error('Failed to initialize TensorFlow.js backend', err);
-      throw new Error('Could not initialize TensorFlow.js backend. Check browser compatibility.');
+    return tf.tidy(() => model.execute(inputs, outputs));
+  } catch (error) {
+    if (!(error instanceof Error) || !/executeAsync/.test(error.message)) {
+      throw error;
+    }
+    return model.executeAsync(inputs, outputs);
+  }
+}
+
+/**
+ * Read output tensors into plain nested arrays
+ */
+async function tensorsToData(outputs: tf.Tensor | tf.Tensor[] | tf.NamedTensorMap): Promise<any> {
+  if (outputs instanceof tf.Tensor) {
+    return outputs.array();
+  }
+  if (Array.isArray(outputs)) {
+    return Promise.all(outputs.map(output => output.array()));
+  }
+
+  const result: Record<string, any> = {};
+  for (const [name, output] of Object.entries(outputs)) {
+    result[name] = await output.array();
+  }
+  return result;
+}
+
+/**
+ * Resolve a TF Hub module URL to its model.json, following tf.loadGraphModel's
+ * fromTFHub semantics; URLs that already name a .json file are left unchanged
+ * @param modelUrl The TF Hub module URL, e.g. https://tfhub.dev/google/tfjs-model/imagenet/mobilenet_v2_100_224/classification/3/default/1
+ */
+export function resolveTfHubUrl(modelUrl: string): string {
+  if (/\.json($|\?)/.test(modelUrl)) {
+    return modelUrl;
+  }
+  return `${modelUrl.endsWith('/') ? modelUrl : modelUrl + '/'}model.json?tfjs-format=file`;
+}
+
+/**
+ * Resolve the configured output selection against a graph model's outputs and signature
+ * @param model The loaded graph model
+ * @param config TensorFlow.js model configuration
+ * @returns The outputs to pass to execute(), or undefined for the model's defaults
+ * @throws If a selected output is neither an output node nor a signature key
+ */
+function selectOutputNodes(
+  model: tf.GraphModel,
+  config: Omit<TfjsModelConfig, 'loadModel'>
+): string | string[] | undefined {
+  if (!config.outputNodes) return undefined;
+
+  const signatureOutputs = (model.modelSignature as any)?.outputs || {};
+  const known = new Set<string>([
+    ...model.outputNodes,
+    ...Object.keys(signatureOutputs),
+    ...Object.values(signatureOutputs).map((output: any) => output.name)
+  ]);
+  const requested = Array.isArray(config.outputNodes) ? config.outputNodes : [config.outputNodes];
+  const unknown = requested.filter(name => !known.has(name) && !known.has(name.split(':')[0]));
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Model '${config.name}' has no output(s) ${unknown.join(', ')}. ` +
+      `Available outputs: ${Array.from(known).join(', ')}.`
+    );
+  }
+  return config.outputNodes;
+}
+
+/**
+ * Fetch the model artifacts, consulting the persistent cache first
+ * @param config TensorFlow.js model configuration
+ * @param context The load context provided by the loader
+ * @param loadOptions Options used for network requests
+ * @param integrityFetch The fetch function in loadOptions, checked once the files are downloaded
+ * @returns An in-memory IO handler with the model artifacts
+ */
+async function resolveModelSource(
+  config: Omit<TfjsModelConfig, 'loadModel'>,
+  context: ModelLoadContext,
+  loadOptions: tf.io.LoadOptions,
+  integrityFetch: IntegrityFetch
+): Promise<tf.io.IOHandler> {
+  const cache = context.persistentCache;
+  if (cache) {
+    const cached = await cache.get<tf.io.ModelArtifacts>(config.name, config.version);
+    if (cached) {
+      console.log(`Loading model '${config.name}' from persistent cache`);
+      context.markFetched(true);
+      return tf.io.fromMemory(cached);
+    }
+  }
+
+  // Read the artifacts ourselves so they can be stored, and the download
+  // timed, separately from parsing
+  const handler = config.ioHandler
+    ? await (typeof config.ioHandler === 'function' ? config.ioHandler() : config.ioHandler)
+    : tf.io.http(config.modelUrl!, loadOptions);
+  if (!handler.load) {
+    throw new Error(`The IO handler of model '${config.name}' cannot load models.`);
+  }
+  const artifacts = await handler.load();
+  integrityFetch.assertAllChecked();
+  if (cache) {
+    await cache.put(config.name, config.version, artifacts, artifactsByteSize(artifacts));
+  }
+  context.markFetched(false);
+  return tf.io.fromMemory(artifacts);
+}
+
+/**
+ * Approximate the stored size of model artifacts in bytes
+ */
+function artifactsByteSize(artifacts: tf.io.ModelArtifacts): number {
+  const weightData = artifacts.weightData;
+  const buffers = weightData === undefined ? [] : Array.isArray(weightData) ? weightData : [weightData];
+  const weightBytes = buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0);
+  return weightBytes + JSON.stringify(artifacts.modelTopology ?? {}).length;
+}
+
+/**
+ * Set the backends models use by default, in order of preference
+ * Without a preference, models run on whichever backend is active, or
+ * WebGL then CPU if none is (in Node.js: tensorflow, then WASM, then CPU).
+ * @param backends The preferred backends, or null to restore the default
+ */
+export function setTfBackendPreference(backends: TfjsBackendName[] | null): void {
+  backendPreference = backends ? [...backends] : null;
+}
+
+/**
+ * Check whether a backend initializes on this device
+ * The result is cached; probing leaves the active backend unchanged.
+ * @param backend The backend to probe
+ */
+export function probeTfBackend(backend: TfjsBackendName): Promise<boolean> {
+  let probe = backendProbes.get(backend);
+  if (!probe) {
+    probe = runBackendProbe(backend);
+    backendProbes.set(backend, probe);
+  }
+  return probe;
+}
+
+/**
+ * Try to initialize a backend, then switch back to the previous one
+ */
+async function runBackendProbe(backend: TfjsBackendName): Promise<boolean> {
+  // Not imported, or no WebGPU adapter in this browser
+  if (!tf.findBackendFactory(backend)) return false;
+  if (backend === 'webgpu' && (typeof navigator === 'undefined' || !('gpu' in navigator))) return false;
+  // GPU backends need a browser canvas / adapter
+  if ((backend === 'webgl' || backend === 'webgpu') && isNodeRuntime()) return false;
+
+  const previous = tf.getBackend();
+  let available: boolean;
+  try {
+    available = await tf.setBackend(backend);
+  } catch (error) {
+    console.warn(`TensorFlow.js backend '${backend}' failed to initialize`, error);
+    available = false;
+  }
+
+  if (previous && previous !== backend) {
+    await tf.setBackend(previous);
+  }
+  return available;
+}
+
+/**
+ * Backends a model may run on, in order of preference
+ */
+function candidateBackends(config: Pick<TfjsModelConfig, 'backends' | 'excludeBackends'>): TfjsBackendName[] {
+  let preference = config.backends || backendPreference;
+  if (!preference) {
+    // Keep an already active backend rather than switching under the app's feet
+    const defaults = isNodeRuntime() ? NODE_BACKEND_PREFERENCE : DEFAULT_BACKEND_PREFERENCE;
+    const active = tf.getBackend() as TfjsBackendName | undefined;
+    preference = active && TFJS_BACKENDS.includes(active)
+      ? [active, ...defaults.filter(backend => backend !== active)]
+      : defaults;
+  }
+  return preference.filter(backend => !config.excludeBackends?.includes(backend));
+}
+
+/**
+ * Ensure TensorFlow.js runs on the best available backend for a model
+ * @param config The model's backend requirements (default: the global preference)
+ * @returns The active backend
+ */
+export async function ensureTfBackend(
+  config: Pick<TfjsModelConfig, 'backends' | 'excludeBackends'> = {}
+): Promise<TfjsBackendName> {
+  const candidates = candidateBackends(config);
+
+  for (const backend of candidates) {
+    if (!(await probeTfBackend(backend))) continue;
+
+    if (tf.getBackend() !== backend) {
+      await tf.setBackend(backend);
+      console.log(`Using TensorFlow.js ${backend} backend`);
     }
+    await tf.ready();
+    return backend;
+  }
+
+  throw new ModelBackendError(
+    `Could not initialize a TensorFlow.js backend (tried: ${candidates.join(', ') || 'none'}). ` +
+    `Check browser compatibility and that the backend packages are imported.`
+  );
+}
+
+/**
+ * Switch to the backend a model was loaded on
+ * TensorFlow.js has a single active backend, so models on different
+ * backends switch it back and forth.
+ */
+async function activateModelBackend(model: tf.LayersModel | tf.GraphModel): Promise<void> {
+  const backend = modelBackends.get(model);
+  if (backend && tf.getBackend() !== backend) {
+    await tf.setBackend(backend);
   }
 }
 
+/**
+ * Get the backend a loaded TensorFlow.js model runs on
+ * @param modelName The name of the model
+ */
+export function getTfjsBackend(modelName: string): TfjsBackendName | null {
+  return defaultBinding.getBackend(modelName);
+}
+
 /**
  * Load a TensorFlow.js model with progress tracking
  * @param modelName The name of the registered model
- * @param progressCallback Optional callback for loading progress
+ * @param progressCallback Optional callback receiving the aggregate fraction
+ * and byte-level details for model.json and each weight shard
+ * @param options Optional abort signal and timeout
  */
 export async function loadTfjsModel<T extends tf.LayersModel | tf.GraphModel>(
   modelName: string,
-  progressCallback?: (progress: number) => void
+  progressCallback?: ModelProgressCallback,
+  options: Omit<ModelLoadOptions, 'onProgress'> = {}
 ): Promise<T> {
-  // Check if the model is registered
-  const status = aiModelLoader.getModelStatus(modelName);
-  
-  if (status === ModelLoadingStatus.IDLE) {
-    // If we're using progress tracking, need to set up interceptors
-    if (progressCallback) {
-      // This requires a custom HTTP implementation which is beyond the scope
-      // But in a real implementation, you'd intercept fetch requests here
-      console.warn('Progress tracking not implemented in this example');
-    }
-  }
-  
-  try {
-    return await aiModelLoader.loadModel<T>(modelName);
-  } catch (error) {
-    console.error(`Error loading TensorFlow.js model '${modelName}':`, error);
-    // Add additional context
-    throw new Error(`Failed to load model '${modelName}': ${error instanceof Error ? error.message : String(error)}`);
-  }
+  return defaultBinding.loadModel<T>(modelName, progressCallback, options);
 }
 
 /**
  * Unload and dispose a TensorFlow.js model properly
+ * The tfjs adapter disposes the model's weights to free GPU memory.
  * @param modelName The name of the model to unload
  */
-export function unloadTfjsModel(modelName: string): void {
-  try {
-    const model = aiModelLoader.loadModel(modelName);
-    
-    // First dispose the model properly to free GPU memory
-    if (model && typeof model === 'object' && 'dispose' in model) {
-      (model as any).dispose();
-    }
-    
-    // Then unload from our cache
-    aiModelLoader.unloadModel(modelName);
-  } catch (error) {
-    console.error(`Error unloading model '${modelName}':`, error);
-  }
+export function unloadTfjsModel(modelName: string): Promise<void> {
+  return defaultBinding.unloadModel(modelName);
 }
 
 /**
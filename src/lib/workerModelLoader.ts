@@ -0,0 +1,313 @@
+/**
+ * Worker Model Loader
+ * Main-thread loader whose models live in a dedicated worker, so loading,
+ * warmup and inference never block the UI.
+ */
+
+import {
+  AIModelConfig,
+  ModelInfo,
+  ModelLoadOptions,
+  ModelLoadingStatus,
+  ModelProgressCallback
+} from './aiModelLoader';
+import { ModelLoadCancelledError } from './errors';
+import {
+  ModelEventEmitter,
+  ModelLifecycleEvent,
+  ModelLifecycleEventType,
+  ModelLifecycleListener
+} from './modelEvents';
+import {
+  ModelWorkerPort,
+  WorkerMethod,
+  WorkerModelInputs,
+  WorkerModelOutputs,
+  WorkerResponse,
+  WorkerTensorInput,
+  deserializeError,
+  isWorkerTensor,
+  mapTensors,
+  toWorkerTensor
+} from './workerProtocol';
+
+/**
+ * A Worker, or anything that speaks the same message protocol
+ */
+export interface ModelWorkerLike extends ModelWorkerPort {
+  terminate?(): void;
+}
+
+/**
+ * A call waiting for the worker's answer
+ */
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+  onProgress?: ModelProgressCallback;
+}
+
+/**
+ * Proxy for a model that lives in the worker
+ */
+export class WorkerModelProxy {
+  /**
+   * Create a proxy (use WorkerModelLoader.loadModel instead)
+   * @param modelName The name of the model
+   * @param loader The loader that owns the worker
+   */
+  constructor(
+    public readonly modelName: string,
+    private readonly loader: WorkerModelLoader
+  ) {}
+
+  /**
+   * Run the model's predict() (or an ONNX session's run()) in the worker
+   * @param inputs One tensor, a list or a map by input name
+   */
+  public predict(inputs: WorkerModelInputs): Promise<WorkerModelOutputs> {
+    return this.loader.infer('predict', this.modelName, inputs);
+  }
+
+  /**
+   * Run the model's execute() in the worker, optionally selecting outputs
+   * @param inputs One tensor, a list or a map by input name
+   * @param outputs The output node name(s) to return
+   */
+  public execute(inputs: WorkerModelInputs, outputs?: string | string[]): Promise<WorkerModelOutputs> {
+    return this.loader.infer('execute', this.modelName, inputs, outputs);
+  }
+
+  /**
+   * Unload the model in the worker
+   */
+  public dispose(): Promise<void> {
+    return this.loader.unloadModel(this.modelName);
+  }
+}
+
+/**
+ * Loader with the same registerModel / loadModel API as AIModelLoader,
+ * backed by a worker running startModelWorker()
+ */
+export class WorkerModelLoader {
+  private pending: Map<number, PendingCall> = new Map();
+  private nextId: number = 1;
+  private events: ModelEventEmitter = new ModelEventEmitter();
+  private statuses: Map<string, ModelLoadingStatus> = new Map();
+  private disposed: boolean = false;
+
+  /**
+   * Create a new worker-backed loader
+   * @param worker The worker, e.g. new Worker(new URL('./model.worker.ts', import.meta.url))
+   */
+  constructor(private readonly worker: ModelWorkerLike) {
+    this.worker.addEventListener('message', this.onMessage);
+  }
+
+  /**
+   * Register a model in the worker
+   * The config must be cloneable: custom loadModel and fetchFunc functions
+   * and tfjs ioHandlers have to be registered inside the worker script instead.
+   * @param config Model configuration
+   */
+  public registerModel(config: AIModelConfig): void {
+    assertCloneable(config);
+    this.statuses.set(config.name, ModelLoadingStatus.IDLE);
+    this.call('register', [config]).catch(error => {
+      console.error(`Failed to register model '${config.name}' in the worker:`, error);
+    });
+  }
+
+  /**
+   * Load a model in the worker
+   * @param modelName The name of the model to load
+   * @param config Optional model configuration (registers the model if needed)
+   * @param options Optional load options
+   * @returns A proxy for running the model
+   */
+  public async loadModel(
+    modelName: string,
+    config?: AIModelConfig,
+    options: ModelLoadOptions = {}
+  ): Promise<WorkerModelProxy> {
+    const { onProgress, signal, ...loadOptions } = options;
+    if (config) assertCloneable(config);
+    if (signal?.aborted) {
+      throw new ModelLoadCancelledError(modelName, signal.reason);
+    }
+
+    const id = this.nextId++;
+    const onAbort = () => this.post(this.nextId++, 'cancel', [id]);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      await this.call('load', [modelName, config, loadOptions], [], onProgress, id);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return new WorkerModelProxy(modelName, this);
+  }
+
+  /**
+   * Get the status of a model, mirrored from the worker's lifecycle events
+   * @param modelName The name of the model
+   */
+  public getModelStatus(modelName: string): ModelLoadingStatus {
+    return this.statuses.get(modelName) || ModelLoadingStatus.IDLE;
+  }
+
+  /**
+   * Get a snapshot of a model's state in the worker
+   * @param modelName The name of the model
+   */
+  public getModelInfo(modelName: string): Promise<ModelInfo | null> {
+    return this.call('info', [modelName]);
+  }
+
+  /**
+   * Unload a model in the worker, disposing it through its adapter
+   * @param modelName The name of the model to unload
+   */
+  public async unloadModel(modelName: string): Promise<void> {
+    await this.call('unload', [modelName]);
+  }
+
+  /**
+   * Subscribe to lifecycle events forwarded from the worker
+   * @param type The event type, or '*' for every event
+   * @param listener The listener to invoke
+   * @returns A function that removes the listener
+   */
+  public on(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Remove a lifecycle event listener
+   */
+  public off(type: ModelLifecycleEventType | '*', listener: ModelLifecycleListener): void {
+    this.events.off(type, listener);
+  }
+
+  /**
+   * Run an inference method in the worker
+   * @internal Used by WorkerModelProxy
+   */
+  public infer(
+    method: 'predict' | 'execute',
+    modelName: string,
+    inputs: WorkerModelInputs,
+    outputs?: string | string[]
+  ): Promise<WorkerModelOutputs> {
+    const transfer: Transferable[] = [];
+    const marshalled = mapTensors(inputs, isTensorInput, (input: WorkerTensorInput) =>
+      toWorkerTensor(input, transfer));
+    return this.call(method, [modelName, marshalled, outputs], transfer);
+  }
+
+  /**
+   * Dispose every model in the worker and terminate it
+   */
+  public async dispose(): Promise<void> {
+    if (this.disposed) return;
+
+    try {
+      await this.call('dispose', []);
+    } finally {
+      this.disposed = true;
+      this.worker.removeEventListener('message', this.onMessage);
+      this.worker.terminate?.();
+
+      const error = new Error('The worker model loader was disposed.');
+      for (const call of this.pending.values()) call.reject(error);
+      this.pending.clear();
+      this.events.clear();
+      this.statuses.clear();
+    }
+  }
+
+  /**
+   * Send a request and wait for its result
+   */
+  private call(
+    method: WorkerMethod,
+    args: any[],
+    transfer: Transferable[] = [],
+    onProgress?: ModelProgressCallback,
+    id: number = this.nextId++
+  ): Promise<any> {
+    if (this.disposed) {
+      return Promise.reject(new Error('The worker model loader has been disposed.'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.post(id, method, args, transfer);
+    });
+  }
+
+  /**
+   * Post a request to the worker
+   */
+  private post(id: number, method: WorkerMethod, args: any[], transfer: Transferable[] = []): void {
+    this.worker.postMessage({ id, method, args }, transfer);
+  }
+
+  /**
+   * Dispatch a message from the worker
+   */
+  private onMessage = (event: MessageEvent): void => {
+    const message = event.data as WorkerResponse;
+
+    if (message.type === 'event') {
+      const lifecycleEvent: ModelLifecycleEvent = message.event.error === undefined
+        ? message.event
+        : { ...message.event, error: deserializeError(message.event.error as any) };
+      this.statuses.set(lifecycleEvent.modelName, lifecycleEvent.status);
+      this.events.emit(lifecycleEvent);
+      return;
+    }
+
+    const call = this.pending.get(message.id);
+    if (!call) return;
+
+    if (message.type === 'progress') {
+      call.onProgress?.(message.progress, message.details);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    if (message.type === 'result') {
+      call.resolve(message.result);
+    } else {
+      call.reject(deserializeError(message.error));
+    }
+  };
+}
+
+/**
+ * Check whether a value is a tensor input (plain or dataSync-capable)
+ */
+function isTensorInput(value: any): value is WorkerTensorInput {
+  return isWorkerTensor(value) ||
+    (value != null && typeof value.dataSync === 'function' && Array.isArray(value.shape));
+}
+
+/**
+ * Reject configs that cannot be posted to a worker
+ */
+function assertCloneable(config: AIModelConfig): void {
+  const check = (value: any, path: string): void => {
+    if (typeof value === 'function') {
+      throw new Error(
+        `Model '${config.name}' cannot be registered through a worker loader: '${path}' is a function. ` +
+        `Register it inside the worker script instead.`
+      );
+    }
+    if (value && typeof value === 'object' && !ArrayBuffer.isView(value)) {
+      for (const [key, item] of Object.entries(value)) check(item, path ? `${path}.${key}` : key);
+    }
+  };
+  check(config, '');
+}
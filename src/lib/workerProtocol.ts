@@ -0,0 +1,219 @@
+/**
+ * Worker Protocol
+ * Messages exchanged between WorkerModelLoader and a model worker, and
+ * helpers to move tensor data across the boundary.
+ */
+
+import {
+  ModelErrorCode,
+  ModelLoadCancelledError,
+  ModelLoadTimeoutError,
+  ModelLoaderError,
+  ModelNetworkError
+} from './errors';
+import type { ModelLifecycleEvent } from './modelEvents';
+import type { ModelLoadProgress } from './progressTracker';
+
+/**
+ * Typed arrays that can hold tensor data
+ */
+export type TensorDataArray =
+  | Float32Array
+  | Int32Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int8Array
+  | Uint16Array
+  | Int16Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Plain tensor that crosses the worker boundary
+ */
+export interface WorkerTensor {
+  data: TensorDataArray | string[];
+  shape: number[];
+  dtype: string;
+}
+
+/**
+ * Tensor inputs accepted by worker-hosted models: plain tensors, or
+ * anything exposing dataSync(), shape and dtype (e.g. a tf.Tensor)
+ */
+export type WorkerTensorInput =
+  | WorkerTensor
+  | { dataSync(): TensorDataArray | string[]; shape: number[]; dtype: string };
+
+/**
+ * Inputs for predict / execute: one tensor, a list or a map by input name
+ */
+export type WorkerModelInputs =
+  | WorkerTensorInput
+  | WorkerTensorInput[]
+  | Record<string, WorkerTensorInput>;
+
+/**
+ * Outputs of predict / execute
+ */
+export type WorkerModelOutputs =
+  | WorkerTensor
+  | WorkerTensor[]
+  | Record<string, WorkerTensor>;
+
+/**
+ * Methods the worker host implements
+ */
+export type WorkerMethod =
+  | 'register'
+  | 'load'
+  | 'cancel'
+  | 'predict'
+  | 'execute'
+  | 'unload'
+  | 'info'
+  | 'dispose';
+
+/**
+ * Error details sent back from the worker
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  modelName?: string;
+  timeoutMs?: number;
+  code?: ModelErrorCode;
+  url?: string;
+  status?: number;
+}
+
+/**
+ * Request from the main thread to the worker
+ */
+export interface WorkerRequest {
+  id: number;
+  method: WorkerMethod;
+  args: any[];
+}
+
+/**
+ * Messages from the worker to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'result'; id: number; result?: any }
+  | { type: 'error'; id: number; error: SerializedError }
+  | { type: 'progress'; id: number; progress: number; details: ModelLoadProgress }
+  | { type: 'event'; event: ModelLifecycleEvent };
+
+/**
+ * Minimal interface shared by Worker and DedicatedWorkerGlobalScope
+ */
+export interface ModelWorkerPort {
+  postMessage(message: any, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+/**
+ * Check whether a value is a plain WorkerTensor
+ */
+export function isWorkerTensor(value: any): value is WorkerTensor {
+  return value != null &&
+    typeof value === 'object' &&
+    Array.isArray(value.shape) &&
+    typeof value.dtype === 'string' &&
+    (ArrayBuffer.isView(value.data) || Array.isArray(value.data));
+}
+
+/**
+ * Convert one input to a WorkerTensor
+ * Data read from a live tensor is copied so its backing store is never detached.
+ * @param input The input tensor
+ * @param transfer Collects buffers that can be transferred instead of copied
+ */
+export function toWorkerTensor(input: WorkerTensorInput, transfer: Transferable[]): WorkerTensor {
+  if ('dataSync' in input && typeof input.dataSync === 'function') {
+    const values = input.dataSync();
+    const data = Array.isArray(values) ? [...values] : values.slice();
+    if (ArrayBuffer.isView(data)) transfer.push(data.buffer);
+    return { data, shape: [...input.shape], dtype: input.dtype };
+  }
+
+  const tensor = input as WorkerTensor;
+  return { data: tensor.data, shape: tensor.shape, dtype: tensor.dtype };
+}
+
+/**
+ * Apply a conversion to every tensor in a single / list / map structure
+ * @param value The structure to walk
+ * @param isTensor Detects leaf tensors
+ * @param convert Converts a leaf tensor
+ */
+export function mapTensors<TIn, TOut>(
+  value: any,
+  isTensor: (value: any) => value is TIn,
+  convert: (tensor: TIn) => TOut
+): any {
+  if (isTensor(value)) return convert(value);
+  if (Array.isArray(value)) return value.map(item => mapTensors(item, isTensor, convert));
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = mapTensors(item, isTensor, convert);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Serialize an error so it can be posted to another thread
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof ModelLoaderError) {
+    return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      modelName: error.modelName,
+      timeoutMs: error instanceof ModelLoadTimeoutError ? error.timeoutMs : undefined,
+      code: error.code,
+      url: error.url,
+      status: error instanceof ModelNetworkError ? error.status : undefined
+    };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+// Errors rebuilt as ModelNetworkError, so their HTTP status survives
+const NETWORK_ERROR_NAMES = ['ModelNetworkError', 'ModelCorsError', 'ModelNotFoundError'];
+
+/**
+ * Rebuild an error posted by another thread, restoring the loader's error types
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  let error: Error;
+  if (serialized.name === 'ModelLoadCancelledError' && serialized.modelName) {
+    error = new ModelLoadCancelledError(serialized.modelName);
+  } else if (serialized.name === 'ModelLoadTimeoutError' && serialized.modelName) {
+    error = new ModelLoadTimeoutError(serialized.modelName, serialized.timeoutMs || 0);
+  } else if (serialized.code && NETWORK_ERROR_NAMES.includes(serialized.name)) {
+    error = new ModelNetworkError(serialized.message, serialized, serialized.code);
+    error.name = serialized.name;
+  } else if (serialized.code) {
+    // Other subclasses keep their name and code, but arrive as a ModelLoaderError
+    error = new ModelLoaderError(serialized.code, serialized.message, serialized);
+    error.name = serialized.name;
+  } else {
+    error = new Error(serialized.message);
+    error.name = serialized.name;
+  }
+
+  if (serialized.stack) error.stack = serialized.stack;
+  return error;
+}
@@ -0,0 +1,635 @@
+/**
+ * Model loader tests
+ * Disposal, load timing, cross-tab locking and status, eviction, leases,
+ * dependencies, scopes, updates and lifecycle unloading, driven by stub models.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIModelLoader, ModelLoadingStatus } from '../src/lib/aiModelLoader';
+import { ModelDependencyError, ModelLoadCancelledError, ModelNotRegisteredError } from '../src/lib/errors';
+import { ModelAdapter } from '../src/lib/modelAdapter';
+import { PageLifecycleSignal } from '../src/lib/pageLifecycle';
+import { ModelScheduler, defaultScheduler } from '../src/lib/scheduler';
+import { MemoryStorageBackend, PersistentModelCache } from '../src/lib/persistentModelCache';
+import { MemoryCoordinationHub, TabCoordinator } from '../src/lib/tabCoordinator';
+
+/**
+ * An adapter whose loads ignore the abort signal and resolve when finish() is called
+ */
+function stubAdapter() {
+  const disposed: unknown[] = [];
+  let finish!: () => void;
+  const finished = new Promise<void>(resolve => finish = resolve);
+  const adapter: ModelAdapter = {
+    modelType: 'stub',
+    async load(config) {
+      await finished;
+      return { name: config.name };
+    },
+    dispose(model) {
+      disposed.push(model);
+    }
+  };
+  return { adapter, disposed, finish };
+}
+
+/**
+ * An adapter whose models take up initOptions.bytes, recording disposals
+ */
+function sizedAdapter() {
+  const disposed: string[] = [];
+  const adapter: ModelAdapter = {
+    modelType: 'sized',
+    async load(config) {
+      return { name: config.name, bytes: config.initOptions?.bytes ?? 10 };
+    },
+    dispose(model) {
+      disposed.push(model.name);
+    },
+    estimateMemory(model) {
+      return model.bytes;
+    }
+  };
+  return { adapter, disposed };
+}
+
+/**
+ * An adapter whose models are their config's version; version 'broken' fails
+ * to load and version 'cold' fails to warm up
+ */
+function versionedAdapter() {
+  const disposed: string[] = [];
+  const adapter: ModelAdapter = {
+    modelType: 'versioned',
+    async load(config) {
+      if (config.version === 'broken') throw new Error('Unexpected end of JSON input');
+      return { version: config.version };
+    },
+    async warmup(model) {
+      if (model.version === 'cold') throw new Error('Warmup failed');
+    },
+    dispose(model) {
+      disposed.push(model.version);
+    }
+  };
+  return { adapter, disposed };
+}
+
+/**
+ * A scheduler whose clock only moves when the test sets it
+ */
+function fakeClock(): ModelScheduler & { time: number } {
+  return { ...defaultScheduler, time: 0, now() { return this.time; } };
+}
+
+/**
+ * Register sized models on a loader
+ */
+function registerSized(loader: AIModelLoader, models: Record<string, number>): void {
+  for (const [name, bytes] of Object.entries(models)) {
+    loader.registerModel({ name, modelType: 'sized', initOptions: { bytes } });
+  }
+}
+
+/**
+ * Names of a loader's loaded models
+ */
+function loadedModels(loader: AIModelLoader): string[] {
+  return Object.keys(loader.getMemoryUsage().models);
+}
+
+test('dispose() cancels in-flight loads and disposes what they load', async () => {
+  const { adapter, disposed, finish } = stubAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'slow', modelType: 'stub' });
+
+  const loading = loader.loadModel('slow');
+  await new Promise(resolve => setTimeout(resolve, 0));
+  loader.dispose();
+
+  await assert.rejects(loading, ModelLoadCancelledError);
+  finish();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(disposed, [{ name: 'slow' }]);
+});
+
+test('starts a fresh load when loaded again right after a cancellation', async () => {
+  const { adapter, disposed, finish } = stubAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'slow', modelType: 'stub' });
+
+  const controller = new AbortController();
+  const cancelled = loader.loadModel('slow', undefined, { signal: controller.signal });
+  await new Promise(resolve => setTimeout(resolve, 0));
+  controller.abort();
+  const loading = loader.loadModel('slow');
+
+  await assert.rejects(cancelled, ModelLoadCancelledError);
+  finish();
+  const model = await loading;
+  assert.deepEqual(model, { name: 'slow' });
+  assert.equal(loader.getModelStatus('slow'), ModelLoadingStatus.LOADED);
+
+  // The abandoned load's model is disposed, the new one kept
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(disposed.length, 1);
+  assert.notEqual(disposed[0], model);
+  loader.dispose();
+});
+
+test('loads explicitly after a cancelled preload', async () => {
+  const { adapter, finish } = stubAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'slow', modelType: 'stub' });
+
+  const cancelPreload = loader.preloadModel('slow');
+  await new Promise(resolve => setTimeout(resolve, 0));
+  cancelPreload();
+  const loading = loader.loadModel('slow');
+
+  finish();
+  assert.deepEqual(await loading, { name: 'slow' });
+  assert.equal(loader.getModelStatus('slow'), ModelLoadingStatus.LOADED);
+  loader.dispose();
+});
+
+test('splits load time into fetch and parse from one start point', async () => {
+  const loader = new AIModelLoader({ development: false });
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  loader.registerModel({
+    name: 'timed',
+    modelType: 'custom',
+    loadModel: async context => {
+      await delay(20);
+      context.markFetched(false);
+      await delay(10);
+      return {};
+    }
+  });
+
+  let timing: any;
+  loader.on('loaded', event => timing = event.timing);
+  await loader.loadModel('timed');
+  loader.dispose();
+
+  assert.ok(timing.fetchMs >= 15, `fetchMs ${timing.fetchMs}`);
+  assert.ok(timing.parseMs >= 5, `parseMs ${timing.parseMs}`);
+  assert.ok(timing.fetchMs + timing.parseMs <= timing.totalMs, JSON.stringify(timing));
+});
+
+test('releases the cross-tab lock once the files are cached, before parsing ends', async () => {
+  const hub = new MemoryCoordinationHub();
+  const persistentCache = new PersistentModelCache(new MemoryStorageBackend());
+  const tab = (tabId: string) => new AIModelLoader({
+    development: false,
+    persistentCache,
+    coordinator: new TabCoordinator({ transport: hub.connect(), lock: hub.lock, tabId })
+  });
+  let finishParsing!: () => void;
+  const parsing = new Promise<void>(resolve => finishParsing = resolve);
+  const config = {
+    name: 'shared',
+    modelType: 'custom',
+    loadModel: async (context: any) => {
+      const cached = await context.persistentCache.get('shared');
+      if (cached) {
+        context.markFetched(true);
+        return cached;
+      }
+      await context.persistentCache.put('shared', undefined, 'weights', 7);
+      context.markFetched(false);
+      await parsing;
+      return 'weights';
+    }
+  };
+  const first = tab('first');
+  const second = tab('second');
+  first.registerModel(config);
+  second.registerModel(config);
+
+  const firstLoad = first.loadModel('shared');
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(await second.loadModel('shared'), 'weights');
+  assert.equal(first.getModelStatus('shared'), ModelLoadingStatus.LOADING);
+
+  finishParsing();
+  assert.equal(await firstLoad, 'weights');
+  first.dispose();
+  second.dispose();
+});
+
+test('only unloads models on memory pressure when opted in', async () => {
+  for (const unloadOnMemoryPressure of [false, true]) {
+    let signal!: (signal: PageLifecycleSignal) => void;
+    const loader = new AIModelLoader({ development: false });
+    await loader.initialize({
+      unloadOnMemoryPressure,
+      lifecycleSource: {
+        subscribe: listener => {
+          signal = listener;
+          return () => {};
+        }
+      }
+    });
+    loader.registerModel({ name: 'idle', modelType: 'custom', loadModel: async () => ({}) });
+    await loader.loadModel('idle');
+
+    signal('memory-pressure');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.equal(
+      loader.getModelStatus('idle'),
+      unloadOnMemoryPressure ? ModelLoadingStatus.IDLE : ModelLoadingStatus.LOADED
+    );
+    loader.dispose();
+  }
+});
+
+test('limits loaded models by memory budget, not by count', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const loader = new AIModelLoader({ development: false, maxMemoryBytes: 1e9 });
+  loader.registerAdapter(adapter);
+  const names = ['a', 'b', 'c', 'd', 'e', 'f'];
+  registerSized(loader, Object.fromEntries(names.map(name => [name, 10])));
+
+  for (const name of names) await loader.loadModel(name);
+
+  assert.deepEqual(loadedModels(loader), names);
+  assert.deepEqual(disposed, []);
+  loader.dispose();
+});
+
+test('evicts the least recently used model once over the byte budget', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const scheduler = fakeClock();
+  const loader = new AIModelLoader({ development: false, maxMemoryBytes: 25, scheduler });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { a: 10, b: 10, c: 10 });
+
+  await loader.loadModel('a');
+  scheduler.time = 1;
+  await loader.loadModel('b');
+  scheduler.time = 2;
+  await loader.loadModel('a');
+  scheduler.time = 3;
+  await loader.loadModel('c');
+
+  assert.deepEqual(disposed, ['b']);
+  assert.deepEqual(loadedModels(loader), ['a', 'c']);
+  loader.dispose();
+});
+
+test('size-weighted eviction prefers large idle models over small older ones', async () => {
+  for (const evictionPolicy of ['lru', 'size-weighted'] as const) {
+    const { adapter, disposed } = sizedAdapter();
+    const scheduler = fakeClock();
+    const loader = new AIModelLoader({ development: false, maxMemoryBytes: 100, evictionPolicy, scheduler });
+    loader.registerAdapter(adapter);
+    registerSized(loader, { small: 10, large: 50, incoming: 50 });
+
+    await loader.loadModel('small');
+    scheduler.time = 10;
+    await loader.loadModel('large');
+    scheduler.time = 20;
+    await loader.loadModel('incoming');
+
+    // small: 21 ms idle × 10 bytes, large: 11 ms idle × 50 bytes
+    assert.deepEqual(disposed, [evictionPolicy === 'lru' ? 'small' : 'large']);
+    loader.dispose();
+  }
+});
+
+test('never evicts pinned or leased models', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const loader = new AIModelLoader({ development: false, maxMemoryBytes: 25 });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { pinned: 10, leased: 10, idle: 10, incoming: 10 });
+  loader.pinModel('pinned');
+
+  await loader.loadModel('pinned');
+  const lease = await loader.acquireModel('leased');
+  await loader.loadModel('idle');
+  assert.deepEqual(disposed, []);
+  assert.deepEqual(loadedModels(loader), ['pinned', 'leased', 'idle']);
+
+  await loader.loadModel('incoming');
+  assert.deepEqual(disposed, ['idle']);
+  assert.deepEqual(loadedModels(loader), ['pinned', 'leased', 'incoming']);
+
+  lease.release();
+  loader.dispose();
+});
+
+test('applies a model count limit only when set', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const scheduler = fakeClock();
+  const loader = new AIModelLoader({ development: false, maxCacheSize: 2, scheduler });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { a: 10, b: 10, c: 10 });
+
+  for (const name of ['a', 'b', 'c']) {
+    await loader.loadModel(name);
+    scheduler.time++;
+  }
+
+  assert.deepEqual(disposed, ['a']);
+  assert.throws(() => new AIModelLoader({ maxCacheSize: 0 }), RangeError);
+  loader.dispose();
+});
+
+test('unloadModel waits for the last lease, and releasing twice is a no-op', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { leased: 10 });
+
+  const first = await loader.acquireModel('leased');
+  const second = await loader.acquireModel('leased');
+  let unloaded = false;
+  const unloading = loader.unloadModel('leased').then(() => unloaded = true);
+
+  first.release();
+  first.release();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(unloaded, false);
+  assert.equal(loader.getModelInfo('leased')!.leases, 1);
+  assert.deepEqual(disposed, []);
+
+  second.release();
+  await unloading;
+  assert.equal(loader.getModelStatus('leased'), ModelLoadingStatus.IDLE);
+  assert.deepEqual(disposed, ['leased']);
+  loader.dispose();
+});
+
+test('acquireModel rejects with a typed error when the loader is disposed meanwhile', async () => {
+  const { adapter } = sizedAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { leased: 10 });
+  await loader.loadModel('leased');
+
+  const acquiring = loader.acquireModel('leased');
+  loader.dispose();
+
+  await assert.rejects(acquiring, ModelNotRegisteredError);
+});
+
+test('warns about leases held too long in development', async t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  for (const development of [undefined, true, false]) {
+    const timers: Array<() => void> = [];
+    const scheduler: ModelScheduler = {
+      ...defaultScheduler,
+      setTimeout: callback => timers.push(callback),
+      clearTimeout: () => {}
+    };
+    const { adapter } = sizedAdapter();
+    const loader = new AIModelLoader({ development, scheduler });
+    loader.registerAdapter(adapter);
+    registerSized(loader, { leased: 10 });
+
+    const lease = await loader.acquireModel('leased');
+    timers.forEach(fire => fire());
+    lease.release();
+    loader.dispose();
+
+    // Tests run without NODE_ENV, which counts as development
+    const warned = warn.mock.calls.some(call => /has been held for more than 60000ms/.test(call.arguments[0]));
+    assert.equal(warned, development !== false, `development: ${development}`);
+    warn.mock.resetCalls();
+  }
+});
+
+test('loads dependencies in parallel before the dependent', async () => {
+  const log: string[] = [];
+  const loader = new AIModelLoader({ development: false });
+  const timed = (name: string, dependencies?: string[]) => ({
+    name,
+    modelType: 'custom',
+    dependencies,
+    loadModel: async () => {
+      log.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      log.push(`end ${name}`);
+      return { name };
+    }
+  });
+  loader.registerModels([timed('head', ['tokenizer', 'vocab']), timed('tokenizer'), timed('vocab')]);
+
+  await loader.loadModel('head');
+
+  assert.deepEqual(log.slice(0, 2).sort(), ['start tokenizer', 'start vocab']);
+  assert.deepEqual(log.slice(4), ['start head', 'end head']);
+  assert.equal(loader.getModelStatus('tokenizer'), ModelLoadingStatus.LOADED);
+  loader.dispose();
+});
+
+test('rejects missing and circular dependencies', async () => {
+  const loader = new AIModelLoader({ development: false });
+  const config = (name: string, dependencies: string[]) => ({ name, modelType: 'custom', dependencies });
+
+  assert.throws(() => loader.registerModel(config('head', ['tokenizer'])), ModelDependencyError);
+  assert.throws(() => loader.registerModel(config('self', ['self'])), ModelDependencyError);
+  assert.throws(
+    () => loader.registerModels([config('a', ['b']), config('b', ['c']), config('c', ['a'])]),
+    (error: unknown) => error instanceof ModelDependencyError && /a -> b -> c -> a/.test(error.message)
+  );
+  assert.equal(loader.getModelInfo('a'), null);
+
+  loader.registerModels([config('tokenizer', []), config('head', ['tokenizer'])]);
+  await assert.rejects(loader.updateModel('tokenizer', { dependencies: ['head'] }), ModelDependencyError);
+  loader.dispose();
+});
+
+test('never evicts or expires a dependency while its dependent is loaded', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const scheduler = fakeClock();
+  const loader = new AIModelLoader({ development: false, maxMemoryBytes: 25, cacheTtl: 100, scheduler });
+  loader.registerAdapter(adapter);
+  registerSized(loader, { tokenizer: 10, other: 10 });
+  loader.registerModel({ name: 'head', modelType: 'sized', dependencies: ['tokenizer'] });
+
+  await loader.loadModel('head');
+  scheduler.time = 1;
+  await loader.loadModel('other');
+  assert.deepEqual(disposed, ['head']);
+
+  // Without its dependent, the tokenizer is fair game again
+  scheduler.time = 2;
+  await loader.loadModel('head');
+  scheduler.time = 500;
+  loader.cleanupExpiredModels();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(disposed, ['head', 'other', 'head']);
+  assert.equal(loader.getModelStatus('tokenizer'), ModelLoadingStatus.LOADED);
+
+  loader.cleanupExpiredModels();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(loader.getModelStatus('tokenizer'), ModelLoadingStatus.IDLE);
+  loader.dispose();
+});
+
+test('scopes keep separate registries and share their parent memory budget', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const scheduler = fakeClock();
+  const root = new AIModelLoader({ development: false, maxMemoryBytes: 25, scheduler });
+  root.registerAdapter(adapter);
+  const search = root.createScope('search');
+  const vision = root.createScope('vision');
+  registerSized(search, { encoder: 10 });
+  registerSized(vision, { encoder: 10, detector: 10 });
+
+  assert.throws(() => root.createScope('search'), /already exists/);
+  assert.equal(vision.getScope('search'), search);
+  assert.equal(search.namespace, 'search');
+
+  await search.loadModel('encoder');
+  scheduler.time = 1;
+  await vision.loadModel('encoder');
+  scheduler.time = 2;
+  await vision.loadModel('detector');
+
+  assert.deepEqual(disposed, ['encoder']);
+  assert.equal(search.getModelStatus('encoder'), ModelLoadingStatus.IDLE);
+  assert.deepEqual(loadedModels(vision), ['encoder', 'detector']);
+  assert.equal(vision.getMemoryUsage().sharedUsedBytes, 20);
+
+  root.dispose();
+  assert.equal(root.getScope('vision'), undefined);
+  assert.deepEqual(disposed, ['encoder', 'encoder', 'detector']);
+});
+
+test('sweeps expired models of scopes, each by its own TTL', async () => {
+  const { adapter, disposed } = sizedAdapter();
+  const scheduler = fakeClock();
+  const root = new AIModelLoader({ development: false, cacheTtl: 1000, scheduler });
+  root.registerAdapter(adapter);
+  const short = root.createScope('short', { cacheTtl: 100 });
+  const long = root.createScope('long', { cacheTtl: 10_000 });
+  registerSized(root, { base: 10 });
+  registerSized(short, { fast: 10 });
+  registerSized(long, { slow: 10 });
+
+  await Promise.all([root.loadModel('base'), short.loadModel('fast'), long.loadModel('slow')]);
+  scheduler.time = 500;
+  root.cleanupExpiredModels();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(disposed, ['fast']);
+
+  scheduler.time = 2000;
+  root.cleanupExpiredModels();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(disposed, ['fast', 'base']);
+  assert.equal(long.getModelStatus('slow'), ModelLoadingStatus.LOADED);
+  root.dispose();
+});
+
+test('swaps in an update while leased and disposes the old version once released', async () => {
+  const { adapter, disposed } = versionedAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'ranker', modelType: 'versioned', version: '1' });
+  const lease = await loader.acquireModel('ranker');
+  const events: string[] = [];
+  loader.on('*', event => events.push(event.type));
+
+  await loader.updateModel('ranker', { version: '2' });
+
+  assert.deepEqual(events, ['updated']);
+  assert.equal(loader.getModel('ranker').version, '2');
+  assert.equal(lease.model.version, '1');
+  assert.deepEqual(disposed, []);
+
+  lease.release();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(disposed, ['1']);
+  assert.equal(loader.getModelStatus('ranker'), ModelLoadingStatus.LOADED);
+  loader.dispose();
+});
+
+test('keeps the current version when an update fails to load or warm up', async () => {
+  const { adapter, disposed } = versionedAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'ranker', modelType: 'versioned', version: '1' });
+  await loader.loadModel('ranker');
+  const events: string[] = [];
+  loader.on('*', event => events.push(event.type));
+
+  await assert.rejects(loader.updateModel('ranker', { version: 'broken' }), /Unexpected end of JSON input/);
+  await assert.rejects(loader.updateModel('ranker', { version: 'cold' }), /Warmup failed/);
+
+  assert.deepEqual(events, ['rolledBack', 'rolledBack']);
+  assert.deepEqual(disposed, ['cold']);
+  assert.equal(loader.getModel('ranker').version, '1');
+  assert.equal(loader.getModelInfo('ranker')!.version, '1');
+
+  // The next update starts from the current configuration
+  await loader.updateModel('ranker', { version: '2' });
+  assert.deepEqual(events, ['rolledBack', 'rolledBack', 'updated']);
+  assert.deepEqual(disposed, ['cold', '1']);
+  loader.dispose();
+});
+
+test('applies updates in order, and only reconfigures models that are not loaded', async () => {
+  const { adapter, disposed } = versionedAdapter();
+  const loader = new AIModelLoader({ development: false });
+  loader.registerAdapter(adapter);
+  loader.registerModel({ name: 'ranker', modelType: 'versioned', version: '1' });
+  const events: string[] = [];
+  loader.on('*', event => events.push(`${event.type}:${event.status}`));
+
+  await loader.updateModel('ranker', { version: '2' });
+  assert.deepEqual(events, ['updated:idle']);
+  await loader.loadModel('ranker');
+  assert.equal(loader.getModel('ranker').version, '2');
+
+  events.length = 0;
+  await Promise.all([
+    loader.updateModel('ranker', { version: '3' }),
+    loader.updateModel('ranker', { version: '4' })
+  ]);
+  assert.deepEqual(events, ['updated:loaded', 'updated:loaded']);
+  assert.deepEqual(disposed, ['2', '3']);
+  assert.equal(loader.getModel('ranker').version, '4');
+  loader.dispose();
+});
+
+test('reports models loading or loaded in other tabs', async () => {
+  const hub = new MemoryCoordinationHub();
+  const tab = (tabId: string) => new AIModelLoader({
+    development: false,
+    coordinator: new TabCoordinator({ transport: hub.connect(), lock: hub.lock, tabId })
+  });
+  const { adapter, finish } = stubAdapter();
+  const first = tab('first');
+  const second = tab('second');
+  for (const loader of [first, second]) {
+    loader.registerAdapter(adapter);
+    loader.registerModel({ name: 'shared', modelType: 'stub' });
+  }
+  const elsewhere = () => {
+    const { status, loadingElsewhere, loadedElsewhere } = second.getModelInfo('shared')!;
+    return { status, loadingElsewhere, loadedElsewhere };
+  };
+
+  const loading = first.loadModel('shared');
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(elsewhere(), { status: ModelLoadingStatus.IDLE, loadingElsewhere: true, loadedElsewhere: false });
+  assert.equal(second.getModelStatus('shared'), ModelLoadingStatus.IDLE);
+
+  finish();
+  await loading;
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(elsewhere(), { status: ModelLoadingStatus.IDLE, loadingElsewhere: false, loadedElsewhere: true });
+  assert.deepEqual(second.getTabStatuses('shared'), { first: ModelLoadingStatus.LOADED });
+
+  first.dispose();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.deepEqual(elsewhere(), { status: ModelLoadingStatus.IDLE, loadingElsewhere: false, loadedElsewhere: false });
+  second.dispose();
+});
@@ -0,0 +1,24 @@
+/**
+ * Entry point tests
+ * The main entry never loads onnxruntime-web; ai-model-loader/onnx adds the ONNX adapter.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+/**
+ * Check whether any onnxruntime-web module has been loaded
+ */
+function onnxRuntimeLoaded(): boolean {
+  return Object.keys(require.cache).some(path => path.includes('onnxruntime-web'));
+}
+
+test('loads ONNX support only through the onnx entry point', () => {
+  const main: typeof import('../src/lib/index') = require('../src/lib/index');
+  assert.equal(onnxRuntimeLoaded(), false);
+  assert.equal(main.aiModelLoader.getAdapter('onnx'), undefined);
+  assert.equal('createOnnxBinding' in main, false);
+
+  const onnx: typeof import('../src/lib/onnx') = require('../src/lib/onnx');
+  assert.equal(main.aiModelLoader.getAdapter('onnx'), onnx.onnxAdapter);
+});
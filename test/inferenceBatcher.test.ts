@@ -0,0 +1,61 @@
+/**
+ * Inference batcher tests
+ * Batch concurrent calls against a stub model and check each caller
+ * gets its own rows back.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InferenceBatcher } from '../src/lib/inferenceBatcher';
+import { ModelInputs } from '../src/lib/modelInputs';
+
+/**
+ * A batcher whose model returns one output per declared output,
+ * each echoing the input rows
+ */
+function echoBatcher(outputCount: number) {
+  const executed: ModelInputs[] = [];
+  const batcher = new InferenceBatcher(async inputs => {
+    executed.push(inputs);
+    const rows = inputs as number[][];
+    return outputCount === 1 ? rows : Array.from({ length: outputCount }, (_, i) => rows.map(row => row.map(x => x + i * 100)));
+  }, { windowMs: 1 });
+  return { batcher, executed };
+}
+
+test('gives each caller its row of every output when outputs and rows are equal in number', async () => {
+  const { batcher, executed } = echoBatcher(2);
+  const arity = { inputs: 1, outputs: 2 };
+
+  const [a, b] = await Promise.all([
+    batcher.run([[1]], {}, arity),
+    batcher.run([[2]], {}, arity)
+  ]);
+
+  assert.equal(executed.length, 1);
+  assert.deepEqual(a, [[[1]], [[101]]]);
+  assert.deepEqual(b, [[[2]], [[102]]]);
+});
+
+test('slices rows of a single output', async () => {
+  const { batcher, executed } = echoBatcher(1);
+  const arity = { inputs: 1, outputs: 1 };
+
+  const [a, b] = await Promise.all([
+    batcher.run([[1, 2]], {}, arity),
+    batcher.run([[3, 4], [5, 6]], {}, arity)
+  ]);
+
+  assert.equal(executed.length, 1);
+  assert.deepEqual(a, [[1, 2]]);
+  assert.deepEqual(b, [[3, 4], [5, 6]]);
+});
+
+test('runs input lists of multi-input models unbatched', () => {
+  const inputs = [[[1, 2]], [[3, 4]]];
+
+  assert.equal(InferenceBatcher.canBatch(inputs, {}, { inputs: 2, outputs: 1 }), false);
+  assert.equal(InferenceBatcher.canBatch(inputs, {}, { inputs: null, outputs: 1 }), false);
+  assert.equal(InferenceBatcher.canBatch(inputs, {}, { inputs: 1, outputs: 1 }), true);
+  assert.equal(InferenceBatcher.canBatch({ a: [[1]], b: [[2]] }, {}, { inputs: 2, outputs: 1 }), true);
+});
@@ -0,0 +1,74 @@
+/**
+ * Integrity check tests
+ * Verify downloaded files against expected hashes, including URLs that
+ * differ only in their query string, and hashes that match no file.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { AIModelLoader } from '../src/lib/aiModelLoader';
+import { ModelIntegrityError } from '../src/lib/errors';
+import { createIntegrityFetch } from '../src/lib/integrity';
+import { createTfjsBinding } from '../src/lib/tfjsModelAdapter';
+
+const MODEL_DIR = 'test/fixtures/tiny-model';
+
+/**
+ * SHA-256 (hex) of a fixture file
+ */
+function sha256(file: string): string {
+  return createHash('sha256').update(readFileSync(`${MODEL_DIR}/${file}`)).digest('hex');
+}
+
+/**
+ * Load the fixture with the given integrity hashes
+ */
+async function loadWithIntegrity(integrity: Record<string, string>): Promise<void> {
+  const loader = new AIModelLoader({ development: false });
+  const binding = createTfjsBinding(loader);
+  try {
+    binding.registerModel({ name: 'tiny', modelType: 'tfjs', modelUrl: MODEL_DIR, integrity });
+    await binding.loadModel('tiny');
+  } finally {
+    loader.dispose();
+  }
+}
+
+test('verifies files keyed by relative paths', async () => {
+  await loadWithIntegrity({
+    [`${MODEL_DIR}/model.json`]: sha256('model.json'),
+    [`${MODEL_DIR}/weights.bin`]: sha256('weights.bin')
+  });
+});
+
+test('rejects a hash that matches no downloaded file', async () => {
+  await assert.rejects(
+    loadWithIntegrity({
+      [`${MODEL_DIR}/model.json`]: sha256('model.json'),
+      [`${MODEL_DIR}/weights-typo.bin`]: sha256('weights.bin')
+    }),
+    (error: unknown) => error instanceof ModelIntegrityError && error.actual === null
+  );
+});
+
+test('matches URLs that differ only in their query string', async () => {
+  const body = 'model';
+  const hash = createHash('sha256').update(body).digest('hex');
+  const integrityFetch = createIntegrityFetch(
+    'hub',
+    { 'https://tfhub.dev/model/1/model.json': hash },
+    async () => new Response(body)
+  );
+
+  await integrityFetch('https://tfhub.dev/model/1/model.json?tfjs-format=file');
+  integrityFetch.assertAllChecked();
+
+  const tampered = createIntegrityFetch(
+    'hub',
+    { 'https://tfhub.dev/model/1/model.json': hash },
+    async () => new Response('tampered')
+  );
+  await assert.rejects(tampered('https://tfhub.dev/model/1/model.json?tfjs-format=file'), ModelIntegrityError);
+});
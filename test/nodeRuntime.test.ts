@@ -0,0 +1,66 @@
+/**
+ * Node.js runtime tests
+ * Load a tiny layers model (one dense unit, weights of one, bias of zero)
+ * from the file system.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as tf from '@tensorflow/tfjs';
+import { AIModelLoader } from '../src/lib/aiModelLoader';
+import { ModelNotFoundError } from '../src/lib/errors';
+import { detectRuntime } from '../src/lib/runtime';
+import { createTfjsBinding } from '../src/lib/tfjsModelAdapter';
+
+const FIXTURE_DIR = path.join(process.cwd(), 'test/fixtures/tiny-model');
+
+/**
+ * Load the fixture from a model URL and run one prediction
+ */
+async function predictFrom(modelUrl: string): Promise<number[]> {
+  const loader = new AIModelLoader({ development: false });
+  const binding = createTfjsBinding(loader);
+  try {
+    binding.registerModel({ name: 'tiny', modelType: 'tfjs', modelUrl });
+    const model = await binding.loadModel<tf.LayersModel>('tiny');
+    const output = model.predict(tf.tensor2d([[1, 2]])) as tf.Tensor;
+    return Array.from(await output.data());
+  } finally {
+    loader.dispose();
+  }
+}
+
+test('detects the Node.js runtime', () => {
+  assert.equal(detectRuntime(), 'node');
+});
+
+test('loads a model from a directory path', async () => {
+  assert.deepEqual(await predictFrom(FIXTURE_DIR), [3]);
+});
+
+test('loads a model from a file:// URL', async () => {
+  const modelUrl = pathToFileURL(path.join(FIXTURE_DIR, 'model.json')).href;
+  assert.deepEqual(await predictFrom(modelUrl), [3]);
+});
+
+test('reports a missing path as ModelNotFoundError', async () => {
+  await assert.rejects(predictFrom(path.join(FIXTURE_DIR, 'missing')), ModelNotFoundError);
+});
+
+test('unloads through a binding once the returned promise resolves', async () => {
+  const loader = new AIModelLoader({ development: false });
+  const binding = createTfjsBinding(loader);
+  try {
+    binding.registerModel({ name: 'tiny', modelType: 'tfjs', modelUrl: FIXTURE_DIR });
+    await binding.loadModel('tiny');
+    const tensors = tf.memory().numTensors;
+
+    await binding.unloadModel('tiny');
+    assert.equal(loader.getModel('tiny'), null);
+    assert.ok(tf.memory().numTensors < tensors);
+  } finally {
+    loader.dispose();
+  }
+});
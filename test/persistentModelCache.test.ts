@@ -0,0 +1,112 @@
+/**
+ * Persistent cache tests
+ * Load the tiny fixture through an in-memory storage backend and count
+ * the requests that reach the network.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as tf from '@tensorflow/tfjs';
+import { AIModelLoader } from '../src/lib/aiModelLoader';
+import {
+  MemoryStorageBackend,
+  PersistentModelCache,
+  StoredModelRecord
+} from '../src/lib/persistentModelCache';
+import { createTfjsBinding } from '../src/lib/tfjsModelAdapter';
+
+const MODEL_URL = 'https://models.example.com/tiny/model.json';
+
+/**
+ * A fetch function serving the fixture files, recording each request
+ */
+function fixtureFetch() {
+  const requests: string[] = [];
+  const fetchFunc = async (input: RequestInfo | URL) => {
+    const url = String(input instanceof Request ? input.url : input);
+    requests.push(url);
+    return new Response(readFileSync(`test/fixtures/tiny-model/${url.split('/').pop()}`));
+  };
+  return { fetchFunc, requests };
+}
+
+/**
+ * Load the fixture once with a fresh loader and run one prediction
+ */
+async function loadTiny(cache: PersistentModelCache, version: string, fetchFunc: typeof fetch): Promise<number[]> {
+  const loader = new AIModelLoader({ development: false, persistentCache: cache, fetchFunc });
+  const binding = createTfjsBinding(loader);
+  try {
+    binding.registerModel({ name: 'tiny', modelType: 'tfjs', modelUrl: MODEL_URL, version });
+    const model = await binding.loadModel<tf.LayersModel>('tiny');
+    const output = model.predict(tf.tensor2d([[1, 2]])) as tf.Tensor;
+    const values = Array.from(await output.data());
+    output.dispose();
+    return values;
+  } finally {
+    loader.dispose();
+  }
+}
+
+test('stores a model on a miss and serves it from storage on a hit', async () => {
+  const cache = new PersistentModelCache(new MemoryStorageBackend());
+  const { fetchFunc, requests } = fixtureFetch();
+
+  assert.equal(await cache.get('tiny', '1'), undefined);
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.equal(requests.length, 2);
+  assert.deepEqual((await cache.list()).map(info => info.key), ['tiny@1']);
+
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.equal(requests.length, 2);
+});
+
+test('drops stored copies of other versions and downloads the new one', async () => {
+  const cache = new PersistentModelCache(new MemoryStorageBackend());
+  const { fetchFunc, requests } = fixtureFetch();
+
+  await loadTiny(cache, '1', fetchFunc);
+  assert.equal(await cache.get('tiny', '2'), undefined);
+
+  assert.deepEqual(await loadTiny(cache, '2', fetchFunc), [3]);
+  assert.equal(requests.length, 4);
+  assert.deepEqual((await cache.list()).map(info => info.key), ['tiny@2']);
+});
+
+test('falls back to the network when the model exceeds the storage quota', async () => {
+  const cache = new PersistentModelCache(new MemoryStorageBackend(10));
+  const { fetchFunc, requests } = fixtureFetch();
+
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.equal(requests.length, 4);
+  assert.deepEqual(await cache.list(), []);
+});
+
+test('falls back to the network when the backend fails', async () => {
+  /**
+   * A backend whose writes fail as a full IndexedDB would, and whose reads fail once written to
+   */
+  class FailingBackend extends MemoryStorageBackend {
+    public writes = 0;
+
+    public async get(key: string): Promise<StoredModelRecord | undefined> {
+      if (this.writes > 0) throw new Error('The database connection is closing.');
+      return super.get(key);
+    }
+
+    public async put(): Promise<void> {
+      this.writes++;
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+  }
+  const backend = new FailingBackend();
+  const cache = new PersistentModelCache(backend);
+  const { fetchFunc, requests } = fixtureFetch();
+
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.deepEqual(await loadTiny(cache, '1', fetchFunc), [3]);
+  assert.equal(backend.writes, 2);
+  assert.equal(requests.length, 4);
+});
@@ -0,0 +1,40 @@
+/**
+ * Request options tests
+ * Resolve model URLs against absolute and relative base URLs.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as tf from '@tensorflow/tfjs';
+import { AIModelLoader } from '../src/lib/aiModelLoader';
+import { joinBaseUrl } from '../src/lib/requestOptions';
+import { createTfjsBinding } from '../src/lib/tfjsModelAdapter';
+
+test('resolves against an absolute base URL', () => {
+  assert.equal(joinBaseUrl('tiny/model.json', 'https://cdn.example.com/models/'), 'https://cdn.example.com/models/tiny/model.json');
+  assert.equal(joinBaseUrl('https://other.example.com/model.json', 'https://cdn.example.com/models/'), 'https://other.example.com/model.json');
+});
+
+test('resolves a relative base URL against the working directory', () => {
+  assert.equal(
+    joinBaseUrl('tiny/model.json', 'models/'),
+    pathToFileURL(path.join(process.cwd(), 'models/tiny/model.json')).href
+  );
+  assert.equal(joinBaseUrl('tiny/model.json', '/models/'), pathToFileURL('/models/tiny/model.json').href);
+});
+
+test('loads a model through a relative base URL', async () => {
+  const loader = new AIModelLoader({ development: false, baseUrl: 'test/fixtures/' });
+  const binding = createTfjsBinding(loader);
+  try {
+    binding.registerModel({ name: 'tiny', modelType: 'tfjs', modelUrl: 'tiny-model' });
+    const model = await binding.loadModel<tf.LayersModel>('tiny');
+    const output = model.predict(tf.tensor2d([[1, 2]])) as tf.Tensor;
+    assert.deepEqual(Array.from(await output.data()), [3]);
+    output.dispose();
+  } finally {
+    loader.dispose();
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * Worker protocol tests
+ * Errors keep their type and fields across the worker boundary.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelLoadTimeoutError, ModelNetworkError, ModelNotFoundError } from '../src/lib/errors';
+import { deserializeError, serializeError } from '../src/lib/workerProtocol';
+
+/**
+ * Send an error through a structured clone, as postMessage would
+ */
+function roundTrip(error: unknown): Error {
+  return deserializeError(structuredClone(serializeError(error)));
+}
+
+test('keeps the status and url of network errors', () => {
+  const error = roundTrip(new ModelNotFoundError('tiny', 'https://example.com/model.json'));
+
+  assert.ok(error instanceof ModelNetworkError);
+  assert.equal(error.name, 'ModelNotFoundError');
+  assert.equal(error.code, 'NOT_FOUND');
+  assert.equal(error.status, 404);
+  assert.equal(error.url, 'https://example.com/model.json');
+});
+
+test('keeps the timeout of timeout errors', () => {
+  const error = roundTrip(new ModelLoadTimeoutError('tiny', 500));
+
+  assert.ok(error instanceof ModelLoadTimeoutError);
+  assert.equal(error.timeoutMs, 500);
+});
+
+test('serializes plain errors and thrown values', () => {
+  assert.deepEqual(
+    { ...serializeError(new TypeError('bad input')), stack: undefined },
+    { name: 'TypeError', message: 'bad input', stack: undefined }
+  );
+  assert.deepEqual(serializeError('oops'), { name: 'Error', message: 'oops' });
+});
@@ -13,6 +13,8 @@ module.exports = {
   },
   resolve: {
     extensions: ['.tsx', '.ts', '.js'],
+    // Node.js modules used only for local file loading
+    fallback: { fs: false, 'fs/promises': false, path: false, url: false },
   },
   output: {
     filename: 'demo.js',